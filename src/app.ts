@@ -0,0 +1,120 @@
+import express from 'express';
+import cors from 'cors';
+import morgan from 'morgan';
+import path from 'path';
+import cookieParser from 'cookie-parser';
+import swaggerUi from 'swagger-ui-express';
+import { config } from './config/environment';
+import { errorHandler, notFoundHandler } from './middlewares/errorHandler';
+import { RouteMount, buildEndpointListing, buildOpenApiSpec } from './utils/openapi';
+import authRoutes, { routeDocs as authRouteDocs } from './routes/authRoutes';
+import noticeRoutes, { routeDocs as noticeRouteDocs } from './routes/noticeRoutes';
+import noticeCategoryRoutes, { routeDocs as noticeCategoryRouteDocs } from './routes/noticeCategoryRoutes';
+import galleryRoutes, { routeDocs as galleryRouteDocs } from './routes/galleryRoutes';
+import albumRoutes, { routeDocs as albumRouteDocs } from './routes/albumRoutes';
+import galleryCategoryRoutes, { routeDocs as galleryCategoryRouteDocs } from './routes/galleryCategoryRoutes';
+import adminRoutes, { routeDocs as adminRouteDocs } from './routes/adminRoutes';
+import auditRoutes, { routeDocs as auditRouteDocs } from './routes/auditRoutes';
+
+/**
+ * API routers in mount order (more specific paths first), with their OpenAPI metadata
+ */
+export const routeMounts: RouteMount[] = [
+  { name: 'auth', path: '/api/auth', tag: 'Auth', router: authRoutes, docs: authRouteDocs },
+  { name: 'noticeCategories', path: '/api/notices/categories', tag: 'Notice categories', router: noticeCategoryRoutes, docs: noticeCategoryRouteDocs },
+  { name: 'notices', path: '/api/notices', tag: 'Notices', router: noticeRoutes, docs: noticeRouteDocs },
+  { name: 'albums', path: '/api/gallery/albums', tag: 'Gallery albums', router: albumRoutes, docs: albumRouteDocs },
+  { name: 'galleryCategories', path: '/api/gallery/categories', tag: 'Gallery categories', router: galleryCategoryRoutes, docs: galleryCategoryRouteDocs },
+  { name: 'gallery', path: '/api/gallery', tag: 'Gallery', router: galleryRoutes, docs: galleryRouteDocs },
+  { name: 'admins', path: '/api/admins', tag: 'Admins', router: adminRoutes, docs: adminRouteDocs },
+  { name: 'audit', path: '/api/audit', tag: 'Audit log', router: auditRoutes, docs: auditRouteDocs }
+];
+
+/**
+ * Build the Express application (without connecting to the database or listening)
+ */
+export const createApp = (): express.Application => {
+  const app = express();
+
+  // Trust reverse proxies so req.ip is the real client IP (used for rate limiting)
+  if (config.TRUST_PROXY > 0) {
+    app.set('trust proxy', config.TRUST_PROXY);
+  }
+
+  // CORS configuration
+  app.use(cors({
+    origin: config.CORS_ORIGIN,
+    credentials: true,
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization'],
+    exposedHeaders: ['Retry-After']
+  }));
+
+  // HTTP request logging
+  if (config.NODE_ENV === 'development') {
+    app.use(morgan('dev'));
+  } else {
+    app.use(morgan('combined'));
+  }
+
+  // Body parsing middleware
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+  app.use(cookieParser());
+
+  // Serve files kept by the local storage driver
+  if (config.STORAGE_DRIVER === 'local') {
+    app.use(config.LOCAL_STORAGE_BASE_URL, express.static(path.resolve(process.cwd(), config.LOCAL_STORAGE_DIR)));
+  }
+
+  // Security headers
+  app.use((_req, res, next) => {
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('X-Frame-Options', 'DENY');
+    res.setHeader('X-XSS-Protection', '1; mode=block');
+    next();
+  });
+
+  // Health check endpoint
+  app.get('/health', (_req, res) => {
+    res.status(200).json({
+      success: true,
+      message: 'Hi-Tech Institute Backend is running',
+      timestamp: new Date().toISOString(),
+      environment: config.NODE_ENV,
+      version: '1.0.0'
+    });
+  });
+
+  // API routes
+  for (const mount of routeMounts) {
+    app.use(mount.path, mount.router);
+  }
+
+  // API documentation, generated from the route metadata and Joi schemas
+  const openApiSpec = buildOpenApiSpec(routeMounts);
+  app.get('/api/openapi.json', (_req, res) => {
+    res.status(200).json(openApiSpec);
+  });
+  app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(openApiSpec));
+
+  app.get('/api', (_req, res) => {
+    res.status(200).json({
+      success: true,
+      message: 'Hi-Tech Institute Admin Backend API',
+      version: '1.0.0',
+      endpoints: buildEndpointListing(routeMounts),
+      openapi: '/api/openapi.json',
+      documentation: '/api/docs'
+    });
+  });
+
+  // Handle 404 errors
+  app.use(notFoundHandler);
+
+  // Global error handler
+  app.use(errorHandler);
+
+  return app;
+};
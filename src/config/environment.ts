@@ -8,16 +8,63 @@ interface Config {
   NODE_ENV: string;
   MONGODB_URI: string;
   JWT_SECRET: string;
-  JWT_EXPIRE: string;
+  ACCESS_TOKEN_EXPIRE_MINUTES: number;
+  REFRESH_TOKEN_EXPIRE_DAYS: number;
   BCRYPT_SALT_ROUNDS: number;
   MAX_FILE_SIZE: number;
   ALLOWED_FILE_TYPES: string[];
   CORS_ORIGIN: string | string[];
+  GALLERY_MAX_UPLOAD_SIZE: number;
+  GALLERY_MAX_DIMENSION: number;
+  GALLERY_VARIANT_WIDTHS: number[];
+  GALLERY_IMAGE_FORMATS: string[];
+  GALLERY_THUMBNAIL_SIZE: number;
+  GALLERY_BULK_MAX_FILES: number;
+  GALLERY_BULK_CONCURRENCY: number;
+  VIRUS_SCANNER: string;
+  CLAMD_HOST: string;
+  CLAMD_PORT: number;
+  CLAMD_TIMEOUT_MS: number;
+  STORAGE_DRIVER: string;
+  LOCAL_STORAGE_DIR: string;
+  LOCAL_STORAGE_BASE_URL: string;
+  STORAGE_RECONCILE_INTERVAL_HOURS: number;
+  STORAGE_RECONCILE_GRACE_MINUTES: number;
+  STORAGE_RECONCILE_AUTO_FIX: boolean;
   CLOUDINARY_CLOUD_NAME: string;
   CLOUDINARY_API_KEY: string;
   CLOUDINARY_API_SECRET: string;
+  PASSWORD_RESET_URL: string;
+  PASSWORD_RESET_EXPIRE_MINUTES: number;
+  MAIL_TRANSPORT: string;
+  MAIL_FROM: string;
+  MAIL_OUTPUT_DIR: string;
+  TRUST_PROXY: number;
+  LOGIN_MAX_ATTEMPTS: number;
+  LOGIN_LOCKOUT_BASE_MINUTES: number;
+  LOGIN_LOCKOUT_MAX_MINUTES: number;
+  LOGIN_IP_MAX_ATTEMPTS: number;
+  LOGIN_IP_WINDOW_MINUTES: number;
+  UPLOAD_RATE_LIMIT_MAX: number;
+  UPLOAD_RATE_LIMIT_WINDOW_MINUTES: number;
+  TWO_FACTOR_ISSUER: string;
+  TWO_FACTOR_ENCRYPTION_KEY: string;
+  MFA_TOKEN_EXPIRE_MINUTES: number;
+  NOTICE_MAX_REVISIONS: number;
+  NOTICE_MAX_ATTACHMENTS: number;
+  TRASH_RETENTION_DAYS: number;
+  TRASH_PURGE_INTERVAL_MINUTES: number;
+  NOTICE_SCHEDULER_INTERVAL_MINUTES: number;
 }
 
+/**
+ * Parse a count that must be at least 1, using the default when the value is not a number
+ */
+const parsePositiveInt = (value: string | undefined, defaultValue: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? defaultValue : Math.max(1, parsed);
+};
+
 /**
  * Application configuration from environment variables
  */
@@ -26,7 +73,8 @@ export const config: Config = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   MONGODB_URI: process.env.MONGODB_URI || 'mongodb://localhost:27017/hitech-institute',
   JWT_SECRET: process.env.JWT_SECRET || 'hitech-jwt-secret-key-2024',
-  JWT_EXPIRE: process.env.JWT_EXPIRE || '24h',
+  ACCESS_TOKEN_EXPIRE_MINUTES: parseInt(process.env.ACCESS_TOKEN_EXPIRE_MINUTES || '15', 10),
+  REFRESH_TOKEN_EXPIRE_DAYS: parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS || '7', 10),
   BCRYPT_SALT_ROUNDS: parseInt(process.env.BCRYPT_SALT_ROUNDS || '12', 10),
   MAX_FILE_SIZE: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB default
   ALLOWED_FILE_TYPES: process.env.ALLOWED_FILE_TYPES?.split(',') || [
@@ -37,16 +85,57 @@ export const config: Config = {
     'application/pdf'
   ],
   CORS_ORIGIN: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000', 'http://localhost:5000'],
+  GALLERY_MAX_UPLOAD_SIZE: parseInt(process.env.GALLERY_MAX_UPLOAD_SIZE || '20971520', 10), // 20MB default, before downscaling
+  GALLERY_MAX_DIMENSION: parseInt(process.env.GALLERY_MAX_DIMENSION || '2560', 10), // Longest side in pixels
+  GALLERY_VARIANT_WIDTHS: (process.env.GALLERY_VARIANT_WIDTHS || '480,960,1600')
+    .split(',')
+    .map(width => parseInt(width, 10))
+    .filter(width => width > 0),
+  GALLERY_IMAGE_FORMATS: (process.env.GALLERY_IMAGE_FORMATS || 'webp,avif').split(','),
+  GALLERY_THUMBNAIL_SIZE: parseInt(process.env.GALLERY_THUMBNAIL_SIZE || '320', 10),
+  GALLERY_BULK_MAX_FILES: parsePositiveInt(process.env.GALLERY_BULK_MAX_FILES, 30),
+  GALLERY_BULK_CONCURRENCY: parsePositiveInt(process.env.GALLERY_BULK_CONCURRENCY, 3), // Images processed at once
+  VIRUS_SCANNER: process.env.VIRUS_SCANNER || 'none',
+  CLAMD_HOST: process.env.CLAMD_HOST || '127.0.0.1',
+  CLAMD_PORT: parseInt(process.env.CLAMD_PORT || '3310', 10),
+  CLAMD_TIMEOUT_MS: parseInt(process.env.CLAMD_TIMEOUT_MS || '10000', 10),
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'cloudinary',
+  LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR || 'uploads',
+  LOCAL_STORAGE_BASE_URL: process.env.LOCAL_STORAGE_BASE_URL || '/uploads', // URL path the directory above is served under
+  STORAGE_RECONCILE_INTERVAL_HOURS: parseInt(process.env.STORAGE_RECONCILE_INTERVAL_HOURS || '24', 10),
+  STORAGE_RECONCILE_GRACE_MINUTES: parseInt(process.env.STORAGE_RECONCILE_GRACE_MINUTES || '60', 10),
+  STORAGE_RECONCILE_AUTO_FIX: process.env.STORAGE_RECONCILE_AUTO_FIX === 'true',
   CLOUDINARY_CLOUD_NAME: process.env.CLOUDINARY_CLOUD_NAME || '',
   CLOUDINARY_API_KEY: process.env.CLOUDINARY_API_KEY || '',
-  CLOUDINARY_API_SECRET: process.env.CLOUDINARY_API_SECRET || ''
+  CLOUDINARY_API_SECRET: process.env.CLOUDINARY_API_SECRET || '',
+  PASSWORD_RESET_URL: process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password',
+  PASSWORD_RESET_EXPIRE_MINUTES: parseInt(process.env.PASSWORD_RESET_EXPIRE_MINUTES || '30', 10),
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  MAIL_FROM: process.env.MAIL_FROM || 'Hi-Tech Institute <no-reply@hitech-institute.local>',
+  MAIL_OUTPUT_DIR: process.env.MAIL_OUTPUT_DIR || 'mail',
+  TRUST_PROXY: parseInt(process.env.TRUST_PROXY || '0', 10), // Number of reverse proxy hops
+  LOGIN_MAX_ATTEMPTS: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+  LOGIN_LOCKOUT_BASE_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '1', 10),
+  LOGIN_LOCKOUT_MAX_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60', 10),
+  LOGIN_IP_MAX_ATTEMPTS: parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '20', 10),
+  LOGIN_IP_WINDOW_MINUTES: parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || '15', 10),
+  UPLOAD_RATE_LIMIT_MAX: parseInt(process.env.UPLOAD_RATE_LIMIT_MAX || '30', 10),
+  UPLOAD_RATE_LIMIT_WINDOW_MINUTES: parseInt(process.env.UPLOAD_RATE_LIMIT_WINDOW_MINUTES || '15', 10),
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Hi-Tech Institute',
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY || '',
+  MFA_TOKEN_EXPIRE_MINUTES: parseInt(process.env.MFA_TOKEN_EXPIRE_MINUTES || '5', 10),
+  NOTICE_MAX_REVISIONS: parsePositiveInt(process.env.NOTICE_MAX_REVISIONS, 20),
+  NOTICE_MAX_ATTACHMENTS: parsePositiveInt(process.env.NOTICE_MAX_ATTACHMENTS, 5),
+  TRASH_RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  TRASH_PURGE_INTERVAL_MINUTES: parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '60', 10),
+  NOTICE_SCHEDULER_INTERVAL_MINUTES: parseInt(process.env.NOTICE_SCHEDULER_INTERVAL_MINUTES || '1', 10)
 };
 
 /**
  * Validate required environment variables
  */
 export const validateEnvironment = (): void => {
-  const requiredVars = ['MONGODB_URI', 'JWT_SECRET'];
+  const requiredVars = ['MONGODB_URI', 'JWT_SECRET', 'TWO_FACTOR_ENCRYPTION_KEY'];
   
   for (const envVar of requiredVars) {
     if (!process.env[envVar] && !config[envVar as keyof Config]) {
@@ -54,6 +143,27 @@ export const validateEnvironment = (): void => {
     }
   }
 
+  if (!['cloudinary', 'local'].includes(config.STORAGE_DRIVER)) {
+    throw new Error(`❌ Unknown STORAGE_DRIVER: ${config.STORAGE_DRIVER} (expected cloudinary or local)`);
+  }
+
+  const unknownFormats = config.GALLERY_IMAGE_FORMATS.filter(format => !['webp', 'avif'].includes(format));
+  if (unknownFormats.length > 0) {
+    throw new Error(`❌ Unknown GALLERY_IMAGE_FORMATS: ${unknownFormats.join(', ')} (expected webp and/or avif)`);
+  }
+
+  if (!['none', 'clamd'].includes(config.VIRUS_SCANNER)) {
+    throw new Error(`❌ Unknown VIRUS_SCANNER: ${config.VIRUS_SCANNER} (expected none or clamd)`);
+  }
+
+  if (config.NODE_ENV === 'production' && config.VIRUS_SCANNER === 'none') {
+    console.warn('⚠️ WARNING: Uploads are not virus scanned. Set VIRUS_SCANNER=clamd in production.');
+  }
+
+  if (config.STORAGE_DRIVER === 'cloudinary' && !config.CLOUDINARY_CLOUD_NAME) {
+    console.warn('⚠️ WARNING: Cloudinary is not configured; uploads will fail. Set the CLOUDINARY_* variables or STORAGE_DRIVER=local.');
+  }
+
   if (config.NODE_ENV === 'production' && config.JWT_SECRET === 'hitech-jwt-secret-key-2024') {
     console.warn('⚠️ WARNING: Using default JWT secret in production. Please set JWT_SECRET environment variable.');
   }
@@ -0,0 +1,588 @@
+import { Request, Response } from 'express';
+import { Admin, IAdmin } from '../models/Admin';
+import { Session } from '../models/Session';
+import { SecuritySetting } from '../models/SecuritySetting';
+import {
+  validateAdminRegistration,
+  validateAdminUpdate,
+  validateAdminRole,
+  validateSecurityPolicy
+} from '../utils/validators';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+
+/**
+ * Admin account management controller (super admin only)
+ */
+export class AdminController {
+  /**
+   * Check whether the given admin is the only active super admin left
+   */
+  private static async isLastActiveSuperAdmin(admin: IAdmin): Promise<boolean> {
+    if (admin.role !== 'super_admin' || !admin.isActive) {
+      return false;
+    }
+
+    const activeSuperAdmins = await Admin.countDocuments({
+      role: 'super_admin',
+      isActive: true
+    });
+
+    return activeSuperAdmins <= 1;
+  }
+
+  /**
+   * Save a role or status change unless it would leave no active super admin.
+   * Two requests demoting the last two super admins at once both pass the first
+   * check, so the count is repeated after the write and the change is undone if
+   * nobody is left. Returns false if the change was refused.
+   */
+  private static async saveKeepingSuperAdmin(
+    admin: IAdmin,
+    changes: Partial<Pick<IAdmin, 'role' | 'isActive'>>
+  ): Promise<boolean> {
+    const previous = { role: admin.role, isActive: admin.isActive };
+    const removesSuperAdmin = previous.role === 'super_admin' && previous.isActive &&
+      ((changes.role ?? previous.role) !== 'super_admin' || changes.isActive === false);
+
+    if (removesSuperAdmin && await AdminController.isLastActiveSuperAdmin(admin)) {
+      return false;
+    }
+
+    admin.set(changes);
+    await admin.save();
+
+    if (removesSuperAdmin && await Admin.countDocuments({ role: 'super_admin', isActive: true }) === 0) {
+      admin.set(previous);
+      await admin.save();
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Create a new admin
+   * POST /api/admins
+   */
+  static async createAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAdminRegistration(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { name, email, password, role } = value;
+
+      // Ensure email is not already taken
+      const existingAdmin = await Admin.findOne({ email: email.toLowerCase() });
+      if (existingAdmin) {
+        res.status(409).json({
+          success: false,
+          message: 'An admin with this email already exists'
+        });
+        return;
+      }
+
+      // Password is hashed by the Admin pre-save hook
+      const admin = new Admin({ name, email, password, role });
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'admin.create',
+        entityType: 'Admin',
+        entityId: admin.id,
+        after: admin
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Admin created successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Create admin error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating admin'
+      });
+    }
+  }
+
+  /**
+   * Get all admins
+   * GET /api/admins
+   */
+  static async getAllAdmins(req: Request, res: Response): Promise<void> {
+    try {
+      const admins = await Admin.find().sort({ createdAt: 1 });
+
+      res.status(200).json({
+        success: true,
+        message: 'Admins retrieved successfully',
+        data: {
+          admins: admins.map(admin => admin.get('publicInfo'))
+        }
+      });
+
+    } catch (error) {
+      console.error('Get admins error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching admins'
+      });
+    }
+  }
+
+  /**
+   * Get a single admin by ID
+   * GET /api/admins/:id
+   */
+  static async getAdminById(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Admin retrieved successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Get admin by ID error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching admin'
+      });
+    }
+  }
+
+  /**
+   * Update an admin's name or email
+   * PUT /api/admins/:id
+   */
+  static async updateAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAdminUpdate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(admin);
+
+      if (value.email && value.email.toLowerCase() !== admin.email) {
+        const emailTaken = await Admin.exists({ email: value.email.toLowerCase() });
+        if (emailTaken) {
+          res.status(409).json({
+            success: false,
+            message: 'An admin with this email already exists'
+          });
+          return;
+        }
+        admin.email = value.email;
+      }
+
+      if (value.name) {
+        admin.name = value.name;
+      }
+
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'admin.update',
+        entityType: 'Admin',
+        entityId: admin.id,
+        before,
+        after: admin
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Admin updated successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Update admin error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating admin'
+      });
+    }
+  }
+
+  /**
+   * Change an admin's role
+   * PATCH /api/admins/:id/role
+   */
+  static async changeRole(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAdminRole(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(admin);
+
+      // Never demote the last remaining super admin
+      if (!(await AdminController.saveKeepingSuperAdmin(admin, { role: value.role }))) {
+        res.status(409).json({
+          success: false,
+          message: 'Cannot demote the last remaining super admin'
+        });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: 'admin.role_change',
+        entityType: 'Admin',
+        entityId: admin.id,
+        before,
+        after: admin
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Admin role updated successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Change admin role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while changing admin role'
+      });
+    }
+  }
+
+  /**
+   * Deactivate an admin account
+   * PATCH /api/admins/:id/deactivate
+   */
+  static async deactivateAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(admin);
+
+      // Never lock everyone out by deactivating the last super admin
+      if (!(await AdminController.saveKeepingSuperAdmin(admin, { isActive: false }))) {
+        res.status(409).json({
+          success: false,
+          message: 'Cannot deactivate the last remaining super admin'
+        });
+        return;
+      }
+
+      // Sign the admin out of every device
+      await Session.revokeAllForAdmin(admin.id, 'admin_deactivated');
+
+      await recordAudit(req, {
+        action: 'admin.deactivate',
+        entityType: 'Admin',
+        entityId: admin.id,
+        before,
+        after: admin
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Admin deactivated successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Deactivate admin error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while deactivating admin'
+      });
+    }
+  }
+
+  /**
+   * Reactivate an admin account
+   * PATCH /api/admins/:id/activate
+   */
+  static async activateAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(admin);
+
+      admin.isActive = true;
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'admin.activate',
+        entityType: 'Admin',
+        entityId: admin.id,
+        before,
+        after: admin
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Admin reactivated successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Activate admin error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while reactivating admin'
+      });
+    }
+  }
+
+  /**
+   * Unlock an admin account locked by failed sign-in attempts
+   * PATCH /api/admins/:id/unlock
+   */
+  static async unlockAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(admin);
+
+      admin.clearLoginFailures();
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'admin.unlock',
+        entityType: 'Admin',
+        entityId: admin.id,
+        before,
+        after: admin
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Admin account unlocked successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Unlock admin error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while unlocking admin'
+      });
+    }
+  }
+
+  /**
+   * Reset an admin's 2FA (e.g. lost authenticator device)
+   * PATCH /api/admins/:id/2fa/reset
+   */
+  static async resetTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById(req.params.id);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(admin);
+
+      admin.twoFactorEnabled = false;
+      admin.twoFactorSecret = undefined;
+      admin.twoFactorPendingSecret = undefined;
+      admin.twoFactorRecoveryCodes = [];
+      admin.twoFactorLastUsedStep = -1;
+      await admin.save();
+
+      // Sessions established with the old factor shouldn't survive the reset
+      await Session.revokeAllForAdmin(admin.id, 'two_factor_reset');
+
+      await recordAudit(req, {
+        action: 'admin.2fa_reset',
+        entityType: 'Admin',
+        entityId: admin.id,
+        before,
+        after: admin
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication reset successfully',
+        data: {
+          admin: admin.get('publicInfo')
+        }
+      });
+
+    } catch (error) {
+      console.error('Reset two-factor error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while resetting two-factor authentication'
+      });
+    }
+  }
+
+  /**
+   * Get the global security policy
+   * GET /api/admins/security-policy
+   */
+  static async getSecurityPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await SecuritySetting.getSettings();
+
+      res.status(200).json({
+        success: true,
+        message: 'Security policy retrieved successfully',
+        data: {
+          policy: {
+            requireTwoFactor: settings.requireTwoFactor,
+            updatedBy: settings.updatedBy,
+            updatedAt: settings.updatedAt
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Get security policy error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching security policy'
+      });
+    }
+  }
+
+  /**
+   * Update the global security policy
+   * PUT /api/admins/security-policy
+   */
+  static async updateSecurityPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateSecurityPolicy(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const settings = await SecuritySetting.getSettings();
+      const before = toPlainSnapshot(settings);
+
+      settings.requireTwoFactor = value.requireTwoFactor;
+      settings.updatedBy = (req as any).admin.adminId;
+      await settings.save();
+
+      await recordAudit(req, {
+        action: 'security_policy.update',
+        entityType: 'SecuritySetting',
+        entityId: settings.id,
+        before,
+        after: settings
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Security policy updated successfully',
+        data: {
+          policy: {
+            requireTwoFactor: settings.requireTwoFactor,
+            updatedBy: settings.updatedBy,
+            updatedAt: settings.updatedAt
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Update security policy error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating security policy'
+      });
+    }
+  }
+}
@@ -0,0 +1,481 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { Album, IAlbum } from '../models/Album';
+import Gallery, { IGallery } from '../models/gallery';
+import { validateAlbum, validateAlbumImages, validateAlbumOrder } from '../utils/validators';
+import { appendImagesToAlbum, removeImageFromAlbum } from '../utils/galleryAlbums';
+import { buildSrcSet } from '../utils/galleryImages';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+
+/**
+ * Gallery album controller
+ */
+export class AlbumController {
+  /**
+   * Summary of an album's cover image for listings
+   */
+  private static toCover(image: IGallery | null | undefined): Record<string, unknown> | null {
+    if (!image?.image) return null;
+
+    return {
+      id: image._id,
+      url: image.image.url,
+      thumbnail: image.image.thumbnail?.url ?? null,
+      placeholder: image.image.placeholder ?? null,
+      srcset: buildSrcSet(image.image)
+    };
+  }
+
+  /**
+   * Find an album by ID or slug
+   */
+  private static findAlbum(idOrSlug: string) {
+    return Album.findOne(
+      Types.ObjectId.isValid(idOrSlug) && idOrSlug.length === 24 ? { _id: idOrSlug } : { slug: idOrSlug.toLowerCase() }
+    );
+  }
+
+  /**
+   * Get all albums with their image count and cover
+   * GET /api/gallery/albums
+   */
+  static async getAlbums(req: Request, res: Response): Promise<void> {
+    try {
+      const albums = await Album.find().sort({ eventDate: -1, createdAt: -1 });
+      const albumIds = albums.map(album => album._id);
+
+      // Image count and first image (the cover fallback) per album
+      const stats: { _id: Types.ObjectId; imageCount: number; firstImage: Types.ObjectId }[] = await Gallery.aggregate([
+        { $match: { album: { $in: albumIds } } },
+        { $sort: { albumPosition: 1, date: -1 } },
+        { $group: { _id: '$album', imageCount: { $sum: 1 }, firstImage: { $first: '$_id' } } }
+      ]);
+      const statsByAlbum = new Map(stats.map(stat => [stat._id.toString(), stat]));
+
+      const coverIds = albums.map(album => album.coverImage ?? statsByAlbum.get(album.id)?.firstImage).filter(Boolean);
+      const covers = await Gallery.find({ _id: { $in: coverIds } });
+      const coversById = new Map(covers.map(cover => [cover.id as string, cover]));
+
+      res.status(200).json({
+        success: true,
+        message: 'Albums retrieved successfully',
+        data: {
+          albums: albums.map(album => {
+            const coverId = album.coverImage ?? statsByAlbum.get(album.id)?.firstImage;
+            return {
+              ...album.toJSON(),
+              imageCount: statsByAlbum.get(album.id)?.imageCount ?? 0,
+              cover: AlbumController.toCover(coverId ? coversById.get(coverId.toString()) : null)
+            };
+          })
+        }
+      });
+
+    } catch (error) {
+      console.error('Get albums error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching albums'
+      });
+    }
+  }
+
+  /**
+   * Get an album (by ID or slug) with its images in album order
+   * GET /api/gallery/albums/:idOrSlug
+   */
+  static async getAlbum(req: Request, res: Response): Promise<void> {
+    try {
+      const album = await AlbumController.findAlbum(req.params.idOrSlug as string);
+      if (!album) {
+        res.status(404).json({
+          success: false,
+          message: 'Album not found'
+        });
+        return;
+      }
+
+      const images = await Gallery.find({ album: album._id }).sort({ albumPosition: 1, date: -1 });
+      const cover = (album.coverImage && images.find(image => (image._id as Types.ObjectId).equals(album.coverImage!))) || images[0];
+
+      res.status(200).json({
+        success: true,
+        message: 'Album retrieved successfully',
+        data: {
+          album: {
+            ...album.toJSON(),
+            imageCount: images.length,
+            cover: AlbumController.toCover(cover)
+          },
+          images: images.map(image => ({
+            ...image.toJSON(),
+            srcset: image.image ? buildSrcSet(image.image) : {}
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Get album error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching album'
+      });
+    }
+  }
+
+  /**
+   * Create an album (images are added afterwards)
+   * POST /api/gallery/albums
+   */
+  static async createAlbum(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAlbum(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      if (value.coverImage) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Add images to the album before choosing a cover image']
+        });
+        return;
+      }
+
+      const adminId = (req as any).admin.adminId;
+      const album = await Album.saveWithSlug(value.title, undefined, slug => Album.create({
+        title: value.title,
+        slug,
+        description: value.description ?? '',
+        eventDate: value.eventDate || null,
+        createdBy: adminId,
+        updatedBy: adminId
+      }));
+
+      await recordAudit(req, {
+        action: 'album.create',
+        entityType: 'Album',
+        entityId: album.id,
+        after: album
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Album created successfully',
+        data: {
+          album
+        }
+      });
+
+    } catch (error) {
+      console.error('Create album error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating album'
+      });
+    }
+  }
+
+  /**
+   * Update an album's details and cover image
+   * PUT /api/gallery/albums/:id
+   */
+  static async updateAlbum(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAlbum(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const album = await Album.findById(req.params.id);
+      if (!album) {
+        res.status(404).json({
+          success: false,
+          message: 'Album not found'
+        });
+        return;
+      }
+
+      if (value.coverImage && !(await Gallery.exists({ _id: value.coverImage, album: album._id }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Cover image must be an image in this album']
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(album);
+
+      const updates: Partial<IAlbum> = {
+        title: value.title,
+        updatedBy: (req as any).admin.adminId
+      };
+      if (value.description !== undefined) updates.description = value.description;
+      if (value.eventDate !== undefined) updates.eventDate = value.eventDate || null;
+      if (value.coverImage !== undefined) updates.coverImage = value.coverImage || null;
+
+      if (value.title !== album.title) {
+        await Album.saveWithSlug(value.title, album._id as Types.ObjectId, slug => album.set({ ...updates, slug }).save());
+      } else {
+        album.set(updates);
+        await album.save();
+      }
+
+      await recordAudit(req, {
+        action: 'album.update',
+        entityType: 'Album',
+        entityId: album.id,
+        before,
+        after: album
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Album updated successfully',
+        data: {
+          album
+        }
+      });
+
+    } catch (error) {
+      console.error('Update album error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating album'
+      });
+    }
+  }
+
+  /**
+   * Delete an album; its images stay in the gallery without an album
+   * DELETE /api/gallery/albums/:id
+   */
+  static async deleteAlbum(req: Request, res: Response): Promise<void> {
+    try {
+      const album = await Album.findById(req.params.id);
+      if (!album) {
+        res.status(404).json({
+          success: false,
+          message: 'Album not found'
+        });
+        return;
+      }
+
+      // Trashed images are released too, so restoring them doesn't point at a missing album
+      const { modifiedCount } = await Gallery.updateMany(
+        { album: album._id },
+        { album: null, albumPosition: 0 }
+      ).setOptions({ withDeleted: true });
+
+      await album.deleteOne();
+
+      await recordAudit(req, {
+        action: 'album.delete',
+        entityType: 'Album',
+        entityId: album.id,
+        before: album,
+        metadata: { releasedImages: modifiedCount }
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Album deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Delete album error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while deleting album'
+      });
+    }
+  }
+
+  /**
+   * Add gallery images to the end of an album (moving them from any other album)
+   * POST /api/gallery/albums/:id/images
+   */
+  static async addImages(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAlbumImages(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const album = await Album.findById(req.params.id);
+      if (!album) {
+        res.status(404).json({
+          success: false,
+          message: 'Album not found'
+        });
+        return;
+      }
+
+      const imageIds: string[] = value.images;
+      const images = await Gallery.find({ _id: { $in: imageIds } }).select('_id album');
+      const missing = imageIds.filter(imageId => !images.some(image => image.id === imageId));
+      if (missing.length > 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Image not found',
+          errors: missing.map(imageId => `Image ${imageId} not found`)
+        });
+        return;
+      }
+
+      // Images already in this album keep their place
+      const newImageIds = imageIds.filter(imageId => !images.some(image => image.id === imageId && image.album?.equals(album._id as Types.ObjectId)));
+      await appendImagesToAlbum(album._id as Types.ObjectId, newImageIds);
+
+      await recordAudit(req, {
+        action: 'album.images_add',
+        entityType: 'Album',
+        entityId: album.id,
+        metadata: { images: newImageIds }
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `${newImageIds.length} image(s) added to album`,
+        data: {
+          added: newImageIds
+        }
+      });
+
+    } catch (error) {
+      console.error('Add album images error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while adding images to album'
+      });
+    }
+  }
+
+  /**
+   * Take an image out of an album (the image stays in the gallery)
+   * DELETE /api/gallery/albums/:id/images/:imageId
+   */
+  static async removeImage(req: Request, res: Response): Promise<void> {
+    try {
+      const image = await Gallery.findOne({ _id: req.params.imageId, album: req.params.id }).select('_id');
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          message: 'Image not found in album'
+        });
+        return;
+      }
+
+      await removeImageFromAlbum(image._id as Types.ObjectId);
+
+      await recordAudit(req, {
+        action: 'album.image_remove',
+        entityType: 'Album',
+        entityId: req.params.id as string,
+        metadata: { image: image.id }
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Image removed from album'
+      });
+
+    } catch (error) {
+      console.error('Remove album image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while removing image from album'
+      });
+    }
+  }
+
+  /**
+   * Set the order of an album's images
+   * PATCH /api/gallery/albums/:id/order
+   */
+  static async reorderImages(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAlbumOrder(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const album = await Album.findById(req.params.id);
+      if (!album) {
+        res.status(404).json({
+          success: false,
+          message: 'Album not found'
+        });
+        return;
+      }
+
+      const order: string[] = value.order;
+      const images = await Gallery.find({ album: album._id }).select('_id');
+      const currentIds = images.map(image => image.id as string);
+      if (order.length !== currentIds.length || !currentIds.every(imageId => order.includes(imageId))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Order must list every image of the album exactly once']
+        });
+        return;
+      }
+
+      await Gallery.bulkWrite(order.map((imageId, index) => ({
+        updateOne: {
+          filter: { _id: imageId },
+          update: { albumPosition: index }
+        }
+      })));
+
+      await recordAudit(req, {
+        action: 'album.reorder',
+        entityType: 'Album',
+        entityId: album.id,
+        metadata: { order }
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Album images reordered successfully',
+        data: {
+          order
+        }
+      });
+
+    } catch (error) {
+      console.error('Reorder album images error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while reordering album images'
+      });
+    }
+  }
+}
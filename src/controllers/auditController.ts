@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { AuditLog } from '../models/AuditLog';
+import { validateAuditQuery } from '../utils/validators';
+
+/**
+ * Audit log controller
+ */
+export class AuditController {
+  /**
+   * Get audit log entries with filters and pagination
+   * GET /api/audit
+   */
+  static async getAuditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateAuditQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { page, limit, actor, action, entityType, entityId, from, to } = value;
+      const skip = (page - 1) * limit;
+
+      // Build filter from provided query parameters
+      const filter: Record<string, any> = {};
+      if (actor) filter.actor = actor;
+      if (action) filter.action = action;
+      if (entityType) filter.entityType = entityType;
+      if (entityId) filter.entityId = entityId;
+      if (from || to) {
+        filter.createdAt = {};
+        if (from) filter.createdAt.$gte = from;
+        if (to) filter.createdAt.$lte = to;
+      }
+
+      const [logs, total] = await Promise.all([
+        AuditLog.find(filter)
+          .populate('actor', 'name email')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        AuditLog.countDocuments(filter)
+      ]);
+
+      res.status(200).json({
+        success: true,
+        message: 'Audit logs retrieved successfully',
+        data: {
+          logs,
+          pagination: {
+            currentPage: page,
+            totalPages: Math.ceil(total / limit),
+            totalItems: total,
+            itemsPerPage: limit,
+            hasNextPage: page < Math.ceil(total / limit),
+            hasPrevPage: page > 1
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Get audit logs error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching audit logs'
+      });
+    }
+  }
+}
@@ -1,14 +1,174 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { Admin } from '../models/Admin';
+import { Admin, IAdmin } from '../models/Admin';
+import { Session } from '../models/Session';
+import { SecuritySetting } from '../models/SecuritySetting';
 import { config } from '../config/environment';
-import { validateSignIn } from '../utils/validators';
+import {
+  validateSignIn,
+  validateChangePassword,
+  validateForgotPassword,
+  validateResetPassword,
+  validateTwoFactorSignIn
+} from '../utils/validators';
+import { decryptTotpSecret, verifyTotp } from '../utils/totp';
+import { sendMail } from '../utils/mailer';
+import { recordAudit } from '../utils/auditLogger';
+import {
+  AccessTokenPayload,
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  clearAuthCookies,
+  generateRefreshToken,
+  hashToken,
+  parseRefreshToken,
+  refreshTokenTtlMs,
+  setAuthCookies,
+  signAccessToken,
+  signMfaToken,
+  verifyMfaToken
+} from '../utils/tokens';
 
 /**
  * Admin authentication controller
  */
 export class AuthController {
+  /**
+   * Start a new device session and set access/refresh token cookies
+   */
+  private static async startSession(admin: IAdmin, req: Request, res: Response): Promise<void> {
+    const session = new Session({
+      admin: admin._id,
+      userAgent: req.get('user-agent') || '',
+      ipAddress: req.ip || '',
+      expiresAt: new Date(Date.now() + refreshTokenTtlMs())
+    });
+
+    const refreshToken = generateRefreshToken(session.id);
+    session.refreshTokenHash = hashToken(refreshToken);
+    await session.save();
+
+    const accessToken = signAccessToken({
+      adminId: admin._id?.toString() || '',
+      email: admin.email,
+      role: admin.role,
+      sessionId: session.id
+    });
+
+    setAuthCookies(res, accessToken, refreshToken);
+  }
+
+  /**
+   * Record a failed or blocked sign in attempt in the audit log
+   */
+  private static async auditFailedSignIn(
+    req: Request,
+    admin: IAdmin | null,
+    email: string,
+    reason: string,
+    lockedUntil: Date | null = null
+  ): Promise<void> {
+    const actor = admin ? { adminId: admin.id, email: admin.email } : null;
+
+    await recordAudit(req, {
+      action: 'auth.signin_failed',
+      entityType: 'Auth',
+      entityId: admin?.id,
+      actor,
+      metadata: { email, reason }
+    });
+
+    if (lockedUntil) {
+      await recordAudit(req, {
+        action: 'auth.account_locked',
+        entityType: 'Auth',
+        entityId: admin?.id,
+        actor,
+        metadata: { email, lockedUntil }
+      });
+    }
+  }
+
+  /**
+   * Finish a successful sign in: reset lockout tracking, start a session and respond
+   */
+  private static async completeSignIn(
+    admin: IAdmin,
+    req: Request,
+    res: Response,
+    method: 'password' | 'totp' | 'recovery_code'
+  ): Promise<void> {
+    // Reset failed attempts and update last login
+    admin.clearLoginFailures();
+    admin.lastLogin = new Date();
+    await admin.save();
+
+    await recordAudit(req, {
+      action: 'auth.signin',
+      entityType: 'Auth',
+      entityId: admin.id,
+      actor: { adminId: admin.id, email: admin.email },
+      metadata: { method }
+    });
+
+    // Issue access and refresh tokens for a new session
+    await AuthController.startSession(admin, req, res);
+
+    // Tell the frontend to send the admin to 2FA enrollment if it's mandatory
+    const settings = await SecuritySetting.getSettings();
+
+    res.status(200).json({
+      success: true,
+      message: 'Authentication successful',
+      data: {
+        admin: {
+          id: admin._id,
+          name: admin.name,
+          email: admin.email,
+          role: admin.role,
+          lastLogin: admin.lastLogin,
+          twoFactorEnabled: admin.twoFactorEnabled
+        },
+        twoFactorSetupRequired: settings.requireTwoFactor && !admin.twoFactorEnabled
+      }
+    });
+  }
+
+  /**
+   * Send a lockout response the frontend can tell apart from bad credentials
+   */
+  private static sendAccountLocked(res: Response, lockedUntil: Date): void {
+    const retryAfterSeconds = Math.max(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000), 1);
+
+    res.setHeader('Retry-After', retryAfterSeconds);
+    res.status(423).json({
+      success: false,
+      message: 'Account temporarily locked due to too many failed sign-in attempts',
+      code: 'ACCOUNT_LOCKED',
+      lockedUntil,
+      retryAfter: retryAfterSeconds
+    });
+  }
+
+  /**
+   * Find the session referenced by the refresh cookie, if its token matches
+   */
+  private static async findSessionFromRefreshCookie(req: Request) {
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+    const parsed = refreshToken ? parseRefreshToken(refreshToken) : null;
+    if (!parsed) {
+      return null;
+    }
+
+    const session = await Session.findById(parsed.sessionId).select('+refreshTokenHash');
+    if (!session || session.refreshTokenHash !== hashToken(refreshToken)) {
+      return null;
+    }
+
+    return session;
+  }
+
   /**
    * Admin sign in
    * POST /api/auth/signin
@@ -31,6 +191,7 @@ export class AuthController {
       // Find admin by email
       const admin = await Admin.findOne({ email }).select('+password');
       if (!admin) {
+        await AuthController.auditFailedSignIn(req, null, email, 'unknown_email');
         res.status(401).json({
           success: false,
           message: 'Invalid credentials'
@@ -38,9 +199,23 @@ export class AuthController {
         return;
       }
 
+      // Refuse locked accounts without checking the password
+      if (admin.isLocked()) {
+        await AuthController.auditFailedSignIn(req, admin, email, 'account_locked');
+        AuthController.sendAccountLocked(res, admin.lockedUntil as Date);
+        return;
+      }
+
       // Verify password
       const isPasswordValid = await bcrypt.compare(password, admin.password);
       if (!isPasswordValid) {
+        const lockedUntil = await admin.registerFailedLogin();
+        await AuthController.auditFailedSignIn(req, admin, email, 'invalid_password', lockedUntil);
+        if (lockedUntil) {
+          AuthController.sendAccountLocked(res, lockedUntil);
+          return;
+        }
+
         res.status(401).json({
           success: false,
           message: 'Invalid credentials'
@@ -48,42 +223,114 @@ export class AuthController {
         return;
       }
 
-      // Generate JWT token
-      const payload = {
-        adminId: admin._id?.toString() || '',
-        email: admin.email,
-        role: admin.role
-      };
-      const token = jwt.sign(payload, config.JWT_SECRET, { expiresIn: '24h' });
+      // Check if admin is active
+      if (!admin.isActive) {
+        await AuthController.auditFailedSignIn(req, admin, email, 'account_deactivated');
+        res.status(401).json({
+          success: false,
+          message: 'Admin account is deactivated'
+        });
+        return;
+      }
 
-      // Update last login
-      admin.lastLogin = new Date();
-      await admin.save();
+      // Admins with 2FA enabled must complete a second step
+      if (admin.twoFactorEnabled) {
+        res.status(200).json({
+          success: true,
+          message: 'Two-factor authentication required',
+          data: {
+            mfaRequired: true,
+            mfaToken: signMfaToken(admin.id)
+          }
+        });
+        return;
+      }
+
+      await AuthController.completeSignIn(admin, req, res, 'password');
 
-      // Set token in HTTP-only cookie
-      res.cookie('token', token, {
-        httpOnly: true,
-        secure: true,
-        maxAge: 24 * 60 * 60 * 1000, // 1 day
-        sameSite: 'none'
+    } catch (error) {
+      console.error('Sign in error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error during authentication'
       });
+    }
+  }
 
-      res.status(200).json({
-        success: true,
-        message: 'Authentication successful',
-        data: {
-          admin: {
-            id: admin._id,
-            name: admin.name,
-            email: admin.email,
-            role: admin.role,
-            lastLogin: admin.lastLogin
-          }
+  /**
+   * Second sign in step for admins with 2FA enabled
+   * POST /api/auth/signin/2fa
+   */
+  static async verifyTwoFactorSignIn(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateTwoFactorSignIn(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const mfaPayload = verifyMfaToken(value.mfaToken);
+      if (!mfaPayload) {
+        res.status(401).json({
+          success: false,
+          message: 'Two-factor session has expired, please sign in again'
+        });
+        return;
+      }
+
+      const admin = await Admin.findById(mfaPayload.adminId)
+        .select('+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep');
+      if (!admin || !admin.isActive || !admin.twoFactorEnabled || !admin.twoFactorSecret) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid credentials'
+        });
+        return;
+      }
+
+      // Wrong codes count toward the same lockout as wrong passwords
+      if (admin.isLocked()) {
+        await AuthController.auditFailedSignIn(req, admin, admin.email, 'account_locked');
+        AuthController.sendAccountLocked(res, admin.lockedUntil as Date);
+        return;
+      }
+
+      let isCodeValid = false;
+      if (value.code) {
+        const step = verifyTotp(
+          decryptTotpSecret(admin.twoFactorSecret),
+          value.code,
+          admin.twoFactorLastUsedStep
+        );
+        isCodeValid = step !== null && await admin.consumeTotpStep(step);
+      } else {
+        isCodeValid = await admin.useRecoveryCode(value.recoveryCode);
+      }
+
+      if (!isCodeValid) {
+        const lockedUntil = await admin.registerFailedLogin();
+        await AuthController.auditFailedSignIn(req, admin, admin.email, 'invalid_two_factor_code', lockedUntil);
+        if (lockedUntil) {
+          AuthController.sendAccountLocked(res, lockedUntil);
+          return;
         }
-      });
+
+        res.status(401).json({
+          success: false,
+          message: 'Invalid two-factor code'
+        });
+        return;
+      }
+
+      await AuthController.completeSignIn(admin, req, res, value.code ? 'totp' : 'recovery_code');
 
     } catch (error) {
-      console.error('Sign in error:', error);
+      console.error('Two-factor sign in error:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error during authentication'
@@ -118,6 +365,7 @@ export class AuthController {
             email: admin.email,
             role: admin.role,
             lastLogin: admin.lastLogin,
+            twoFactorEnabled: admin.twoFactorEnabled,
             createdAt: admin.createdAt
           }
         }
@@ -155,16 +403,379 @@ export class AuthController {
   }
 
   /**
-   * Admin logout
+   * Change the current admin's password
+   * PUT /api/auth/password
+   */
+  static async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateChangePassword(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const admin = await Admin.findById((req as any).admin.adminId).select('+password');
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const isPasswordValid = await admin.comparePassword(value.currentPassword);
+      if (!isPasswordValid) {
+        res.status(401).json({
+          success: false,
+          message: 'Current password is incorrect'
+        });
+        return;
+      }
+
+      // Password is hashed and passwordChangedAt is set by the pre-save hook
+      admin.password = value.newPassword;
+      await admin.save();
+
+      // Invalidate every existing session, then keep this device signed in
+      await Session.revokeAllForAdmin(admin.id, 'password_changed');
+      await AuthController.startSession(admin, req, res);
+
+      await recordAudit(req, {
+        action: 'auth.password_change',
+        entityType: 'Auth',
+        entityId: admin.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Password changed successfully'
+      });
+
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while changing password'
+      });
+    }
+  }
+
+  /**
+   * Request a password reset email
+   * POST /api/auth/forgot-password
+   */
+  static async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateForgotPassword(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      // Same response whether or not the account exists, to avoid leaking emails
+      const genericResponse = {
+        success: true,
+        message: 'If an account with that email exists, a password reset link has been sent'
+      };
+
+      const admin = await Admin.findOne({ email: value.email.toLowerCase(), isActive: true });
+      if (!admin) {
+        res.status(200).json(genericResponse);
+        return;
+      }
+
+      const resetToken = admin.createPasswordResetToken();
+      await admin.save();
+
+      const resetUrl = `${config.PASSWORD_RESET_URL}?token=${resetToken}`;
+
+      try {
+        await sendMail({
+          to: admin.email,
+          subject: 'Reset your Hi-Tech Institute admin password',
+          text: [
+            `Hello ${admin.name},`,
+            '',
+            'We received a request to reset your admin password.',
+            `Use the link below within ${config.PASSWORD_RESET_EXPIRE_MINUTES} minutes to choose a new password:`,
+            '',
+            resetUrl,
+            '',
+            'If you did not request this, you can safely ignore this email.'
+          ].join('\n')
+        });
+      } catch (mailError) {
+        console.error('Password reset email error:', mailError);
+
+        // Don't leave an unusable token behind
+        admin.passwordResetTokenHash = undefined;
+        admin.passwordResetExpires = undefined;
+        await admin.save();
+      }
+
+      res.status(200).json(genericResponse);
+
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while requesting password reset'
+      });
+    }
+  }
+
+  /**
+   * Reset password using a reset token
+   * POST /api/auth/reset-password
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateResetPassword(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const admin = await Admin.findOne({
+        passwordResetTokenHash: hashToken(value.token),
+        passwordResetExpires: { $gt: new Date() },
+        isActive: true
+      });
+
+      if (!admin) {
+        res.status(400).json({
+          success: false,
+          message: 'Reset token is invalid or has expired'
+        });
+        return;
+      }
+
+      // Tokens are single-use; proving email ownership also lifts any lockout
+      admin.password = value.newPassword;
+      admin.passwordResetTokenHash = undefined;
+      admin.passwordResetExpires = undefined;
+      admin.clearLoginFailures();
+      await admin.save();
+
+      await Session.revokeAllForAdmin(admin.id, 'password_reset');
+
+      await recordAudit(req, {
+        action: 'auth.password_reset',
+        entityType: 'Auth',
+        entityId: admin.id,
+        actor: { adminId: admin.id, email: admin.email }
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Password has been reset successfully. Please sign in with your new password.'
+      });
+
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while resetting password'
+      });
+    }
+  }
+
+  /**
+   * Rotate the refresh token and issue a new access token
+   * POST /api/auth/refresh
+   */
+  static async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+      const parsed = refreshToken ? parseRefreshToken(refreshToken) : null;
+      if (!parsed) {
+        res.status(401).json({
+          success: false,
+          message: 'Refresh token missing or malformed'
+        });
+        return;
+      }
+
+      // Rotate refresh token; the swap only succeeds if the presented token is still current
+      const newRefreshToken = generateRefreshToken(parsed.sessionId);
+      const rotation = await Session.rotateRefreshToken(
+        parsed.sessionId,
+        hashToken(refreshToken),
+        hashToken(newRefreshToken),
+        { userAgent: req.get('user-agent'), ipAddress: req.ip }
+      );
+
+      if (rotation.status === 'invalid') {
+        clearAuthCookies(res);
+        res.status(401).json({
+          success: false,
+          message: 'Session has expired or been revoked'
+        });
+        return;
+      }
+
+      // A rotated-out token being presented again means it was stolen: the session is revoked
+      if (rotation.status === 'reused') {
+        clearAuthCookies(res);
+        res.status(401).json({
+          success: false,
+          message: 'Refresh token reuse detected. Session has been revoked.'
+        });
+        return;
+      }
+
+      const { session } = rotation;
+      const admin = await Admin.findById(session.admin);
+      if (!admin || !admin.isActive) {
+        await session.revoke('admin_unavailable');
+        clearAuthCookies(res);
+        res.status(401).json({
+          success: false,
+          message: 'Admin not found or deactivated'
+        });
+        return;
+      }
+
+      const accessToken = signAccessToken({
+        adminId: admin._id?.toString() || '',
+        email: admin.email,
+        role: admin.role,
+        sessionId: session.id
+      });
+
+      setAuthCookies(res, accessToken, newRefreshToken);
+
+      res.status(200).json({
+        success: true,
+        message: 'Token refreshed successfully'
+      });
+
+    } catch (error) {
+      console.error('Refresh token error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error during token refresh'
+      });
+    }
+  }
+
+  /**
+   * List the current admin's active sessions
+   * GET /api/auth/sessions
+   */
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { adminId, sessionId } = (req as any).admin;
+
+      const sessions = await Session.find({
+        admin: adminId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() }
+      }).sort({ lastUsedAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        message: 'Sessions retrieved successfully',
+        data: {
+          sessions: sessions.map(session => ({
+            id: session._id,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session._id?.toString() === sessionId.toString()
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching sessions'
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the current admin's sessions
+   * DELETE /api/auth/sessions/:id
+   */
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { adminId, sessionId } = (req as any).admin;
+
+      const session = await Session.findOne({ _id: req.params.id, admin: adminId });
+      if (!session || !session.isValid()) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      await session.revoke('revoked_by_admin');
+
+      if (session._id?.toString() === sessionId.toString()) {
+        clearAuthCookies(res);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while revoking session'
+      });
+    }
+  }
+
+  /**
+   * Admin logout (revokes the current session)
    * POST /api/auth/logout
    */
   static async logout(req: Request, res: Response): Promise<void> {
     try {
-      res.clearCookie('token', {
-        httpOnly: true,
-        sameSite: 'none',
-        secure: true
-      });
+      let session = await AuthController.findSessionFromRefreshCookie(req);
+
+      // Fall back to the (possibly expired) access token
+      const accessToken = req.cookies?.[ACCESS_TOKEN_COOKIE];
+      if (!session && accessToken) {
+        try {
+          const decoded = jwt.verify(accessToken, config.JWT_SECRET, {
+            ignoreExpiration: true
+          }) as AccessTokenPayload;
+          session = decoded.sessionId ? await Session.findById(decoded.sessionId) : null;
+        } catch {
+          session = null;
+        }
+      }
+
+      if (session && !session.revokedAt) {
+        await session.revoke('logout');
+      }
+
+      clearAuthCookies(res);
 
       res.status(200).json({
         success: true,
@@ -179,4 +790,33 @@ export class AuthController {
       });
     }
   }
+
+  /**
+   * Log out from every device
+   * POST /api/auth/logout-all
+   */
+  static async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      const { adminId } = (req as any).admin;
+
+      const revokedCount = await Session.revokeAllForAdmin(adminId, 'logout_all');
+
+      clearAuthCookies(res);
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out from all devices successfully',
+        data: {
+          revokedSessions: revokedCount
+        }
+      });
+
+    } catch (error) {
+      console.error('Logout all error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error during logout'
+      });
+    }
+  }
 }
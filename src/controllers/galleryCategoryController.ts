@@ -0,0 +1,284 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { GalleryCategory } from '../models/GalleryCategory';
+import Gallery from '../models/gallery';
+import { validateGalleryCategory, validateGalleryCategoryDeleteQuery } from '../utils/validators';
+import { slugify } from '../utils/slugify';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+
+/**
+ * Gallery category management controller
+ */
+export class GalleryCategoryController {
+  /**
+   * Get active gallery categories with their image counts
+   * GET /api/gallery/categories
+   */
+  static async getCategories(req: Request, res: Response): Promise<void> {
+    await GalleryCategoryController.sendCategories(res, { isActive: true });
+  }
+
+  /**
+   * Get all gallery categories, including inactive ones
+   * GET /api/gallery/categories/all
+   */
+  static async getAllCategories(req: Request, res: Response): Promise<void> {
+    await GalleryCategoryController.sendCategories(res, {});
+  }
+
+  /**
+   * List categories matching the filter, each with the number of images in it
+   */
+  private static async sendCategories(res: Response, filter: Record<string, unknown>): Promise<void> {
+    try {
+      const categories = await GalleryCategory.find(filter).sort({ displayOrder: 1, name: 1 });
+
+      const counts: { _id: Types.ObjectId; imageCount: number }[] = await Gallery.aggregate([
+        { $match: { category: { $in: categories.map(category => category._id) } } },
+        { $group: { _id: '$category', imageCount: { $sum: 1 } } }
+      ]);
+      const countsByCategory = new Map(counts.map(count => [count._id.toString(), count.imageCount]));
+
+      res.status(200).json({
+        success: true,
+        message: 'Gallery categories retrieved successfully',
+        data: {
+          categories: categories.map(category => ({
+            ...category.toJSON(),
+            imageCount: countsByCategory.get(category.id) ?? 0
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Get gallery categories error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching gallery categories'
+      });
+    }
+  }
+
+  /**
+   * Create a gallery category
+   * POST /api/gallery/categories
+   */
+  static async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateGalleryCategory(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const slug = slugify(value.name);
+      if (!slug) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category name must contain letters or digits']
+        });
+        return;
+      }
+
+      if (await GalleryCategory.exists({ slug })) {
+        res.status(409).json({
+          success: false,
+          message: 'A category with this name already exists'
+        });
+        return;
+      }
+
+      const adminId = (req as any).admin.adminId;
+      const category = await GalleryCategory.create({
+        ...value,
+        createdBy: adminId,
+        updatedBy: adminId
+      });
+
+      await recordAudit(req, {
+        action: 'gallery_category.create',
+        entityType: 'GalleryCategory',
+        entityId: category.id,
+        after: category
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Gallery category created successfully',
+        data: {
+          category
+        }
+      });
+
+    } catch (error) {
+      console.error('Create gallery category error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating gallery category'
+      });
+    }
+  }
+
+  /**
+   * Update a gallery category; images refer to it by ID, so a rename carries over to them
+   * PUT /api/gallery/categories/:id
+   */
+  static async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateGalleryCategory(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const category = await GalleryCategory.findById(req.params.id);
+      if (!category) {
+        res.status(404).json({
+          success: false,
+          message: 'Gallery category not found'
+        });
+        return;
+      }
+
+      const slug = slugify(value.name);
+      if (!slug) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category name must contain letters or digits']
+        });
+        return;
+      }
+
+      if (await GalleryCategory.exists({ slug, _id: { $ne: category._id } })) {
+        res.status(409).json({
+          success: false,
+          message: 'A category with this name already exists'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(category);
+
+      category.set({ ...value, updatedBy: (req as any).admin.adminId });
+      await category.save();
+
+      await recordAudit(req, {
+        action: 'gallery_category.update',
+        entityType: 'GalleryCategory',
+        entityId: category.id,
+        before,
+        after: category
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Gallery category updated successfully',
+        data: {
+          category
+        }
+      });
+
+    } catch (error) {
+      console.error('Update gallery category error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating gallery category'
+      });
+    }
+  }
+
+  /**
+   * Delete a gallery category; images in it must be moved to another category
+   * with ?reassignTo=<categoryId>
+   * DELETE /api/gallery/categories/:id
+   */
+  static async deleteCategory(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateGalleryCategoryDeleteQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const category = await GalleryCategory.findById(req.params.id);
+      if (!category) {
+        res.status(404).json({
+          success: false,
+          message: 'Gallery category not found'
+        });
+        return;
+      }
+
+      // Trashed images count too, since they can still be restored
+      const imageCount = await Gallery.countDocuments({ category: category._id }).setOptions({ withDeleted: true });
+
+      const reassignTo: string | undefined = value.reassignTo;
+      if (imageCount > 0 && !reassignTo) {
+        res.status(409).json({
+          success: false,
+          message: `Category is used by ${imageCount} image(s); pass reassignTo with the category to move them to`
+        });
+        return;
+      }
+
+      if (reassignTo) {
+        const target = await GalleryCategory.findById(reassignTo);
+        if (!target || (target._id as Types.ObjectId).equals(category._id as Types.ObjectId)) {
+          res.status(400).json({
+            success: false,
+            message: 'Validation error',
+            errors: ['reassignTo must be another existing gallery category']
+          });
+          return;
+        }
+
+        await Gallery.updateMany(
+          { category: category._id },
+          { category: target._id }
+        ).setOptions({ withDeleted: true });
+      }
+
+      await category.deleteOne();
+
+      await recordAudit(req, {
+        action: 'gallery_category.delete',
+        entityType: 'GalleryCategory',
+        entityId: category.id,
+        before: category,
+        metadata: reassignTo ? { reassignedTo: reassignTo, reassignedImages: imageCount } : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        message: imageCount > 0
+          ? `Gallery category deleted; ${imageCount} image(s) moved to the new category`
+          : 'Gallery category deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Delete gallery category error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while deleting gallery category'
+      });
+    }
+  }
+}
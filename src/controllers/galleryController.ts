@@ -1,127 +1,646 @@
-import { Request, Response, NextFunction } from 'express';
-import asyncHandler from 'express-async-handler';
-import Gallery from '../models/gallery';
-import { cloudinaryUtils } from '../utils/cloudinary';
-
-// @desc    Upload a new image to the gallery
-// @route   POST /api/gallery
-// @access  Private/Admin
-export const uploadImageToGallery = asyncHandler(async (req: Request, res: Response) => {
-  if (!req.file) {
-    res.status(400);
-    throw new Error('No file uploaded');
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import Gallery, { IGallery } from '../models/gallery';
+import { GalleryCategory, IGalleryCategory } from '../models/GalleryCategory';
+import { Album } from '../models/Album';
+import { buildSrcSet, deleteStoredFiles, getGalleryImagePublicIds, storeGalleryImage } from '../utils/galleryImages';
+import { appendImagesToAlbum, removeImageFromAlbum } from '../utils/galleryAlbums';
+import {
+  validateGalleryBulkUpload,
+  validateGalleryImage,
+  validateGalleryImageUpdate,
+  validateGalleryQuery,
+  validateObjectId,
+  validateTrashQuery
+} from '../utils/validators';
+import { escapeRegExp } from '../utils/highlight';
+import { slugify } from '../utils/slugify';
+import { inspectUploadedFile } from '../utils/fileInspection';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { config } from '../config/environment';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+
+/**
+ * Gallery image controller
+ */
+export class GalleryController {
+  /**
+   * Encode an opaque listing cursor: the date and ID of the last image on the previous page
+   */
+  private static encodeCursor(image: IGallery): string {
+    return Buffer.from(JSON.stringify([image.date.toISOString(), String(image._id)])).toString('base64url');
+  }
+
+  /**
+   * Decode a listing cursor, or return null if it is malformed
+   */
+  private static decodeCursor(cursor: string): { date: Date; id: Types.ObjectId } | null {
+    try {
+      const [date, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      const parsedDate = new Date(date);
+      if (typeof date !== 'string' || isNaN(parsedDate.getTime()) || !Types.ObjectId.isValid(id)) {
+        return null;
+      }
+      return { date: parsedDate, id: new Types.ObjectId(id as string) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find a gallery category by ID, or by slug (category names are accepted too)
+   */
+  private static findCategory(value: string) {
+    return GalleryCategory.findOne(validateObjectId(value).error ? { slug: slugify(value) } : { _id: value });
   }
 
-  const { title, description, category, date } = req.body;
+  /**
+   * Check the category and album an image is being added to: new images can only
+   * go into active categories. Returns the category, or an error message
+   */
+  private static async resolveUploadTargets(
+    category: string,
+    album: string | null | undefined
+  ): Promise<{ category: IGalleryCategory } | { error: string }> {
+    const galleryCategory = await GalleryController.findCategory(category);
+    if (!galleryCategory?.isActive) {
+      return { error: 'Category not found' };
+    }
+
+    if (album && !(await Album.exists({ _id: album }))) {
+      return { error: 'Album not found' };
+    }
+
+    return { category: galleryCategory };
+  }
+
+  /**
+   * Process, store and save one uploaded image; stored files are removed again if saving fails
+   */
+  private static async saveGalleryImage(
+    file: Express.Multer.File,
+    fields: { title: string; description?: string; category: Types.ObjectId; date: Date },
+    uploadedBy: string
+  ): Promise<IGallery> {
+    // Rotate, downscale and store the image with its responsive variants and thumbnail
+    const image = await storeGalleryImage(file);
+
+    try {
+      return await Gallery.create({ ...fields, image, uploadedBy });
+    } catch (error) {
+      await deleteStoredFiles(getGalleryImagePublicIds(image));
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a new image to the gallery
+   * POST /api/gallery
+   */
+  static async uploadImage(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file!.mimetype.startsWith('image/')) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Only image files can be added to the gallery']
+        });
+        return;
+      }
+
+      // Validate request body
+      const { error, value } = validateGalleryImage(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const targets = await GalleryController.resolveUploadTargets(value.category, value.album);
+      if ('error' in targets) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [targets.error]
+        });
+        return;
+      }
+
+      let image = await GalleryController.saveGalleryImage(
+        req.file!,
+        {
+          title: value.title,
+          description: value.description,
+          category: targets.category._id as Types.ObjectId,
+          date: value.date ?? new Date()
+        },
+        (req as any).admin.adminId
+      );
 
-  // Validate required fields
-  if (!title || !category) {
-    res.status(400);
-    throw new Error('Title and category are required');
+      if (value.album) {
+        await appendImagesToAlbum(value.album, [image._id as Types.ObjectId]);
+        image = (await Gallery.findById(image._id))!;
+      }
+
+      await recordAudit(req, {
+        action: 'gallery.create',
+        entityType: 'Gallery',
+        entityId: image.id,
+        after: image
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Image uploaded successfully',
+        data: image
+      });
+
+    } catch (error) {
+      console.error('Upload gallery image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while uploading image'
+      });
+    }
   }
 
-  // Validate and parse date if provided
-  let parsedDate = date ? new Date(date) : new Date();
-  if (date && isNaN(parsedDate.getTime())) {
-    res.status(400);
-    throw new Error('Invalid date format');
+  /**
+   * Upload several images with shared category, album and date; each file
+   * succeeds or fails on its own and is reported separately
+   * POST /api/gallery/bulk
+   */
+  static async bulkUpload(req: Request, res: Response): Promise<void> {
+    try {
+      const files = req.files as Express.Multer.File[];
+
+      // Shared metadata is checked once, before any file is processed
+      const { error, value } = validateGalleryBulkUpload(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const targets = await GalleryController.resolveUploadTargets(value.category, value.album);
+      if ('error' in targets) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [targets.error]
+        });
+        return;
+      }
+
+      const titles: string[] = value.titles ?? [];
+      const date: Date = value.date ?? new Date();
+      const adminId = (req as any).admin.adminId;
+
+      // Stored images are kept whatever happens to the other files
+      const results = await mapWithConcurrency(files, config.GALLERY_BULK_CONCURRENCY, async (file, index) => {
+        // Missing titles fall back to the file name
+        const title = titles[index] || file.originalname.replace(/\.[^.]*$/, '').slice(0, 100) || file.originalname;
+
+        try {
+          if (!file.mimetype.startsWith('image/') || !config.ALLOWED_FILE_TYPES.includes(file.mimetype)) {
+            throw new Error(`File type ${file.mimetype} is not allowed in the gallery`);
+          }
+
+          await inspectUploadedFile(file);
+          const image = await GalleryController.saveGalleryImage(
+            file,
+            { title, description: value.description, category: targets.category._id as Types.ObjectId, date },
+            adminId
+          );
+
+          await recordAudit(req, {
+            action: 'gallery.create',
+            entityType: 'Gallery',
+            entityId: image.id,
+            after: image,
+            metadata: { bulk: true }
+          });
+
+          return { index, filename: file.originalname, success: true as const, image };
+        } catch (error) {
+          return {
+            index,
+            filename: file.originalname,
+            success: false as const,
+            error: error instanceof Error ? error.message : 'Upload failed'
+          };
+        }
+      });
+
+      // Uploaded images join the album in the order the files were sent
+      const uploaded = results.filter(result => result.success);
+      if (value.album && uploaded.length > 0) {
+        const imageIds = uploaded.map(result => result.image._id as Types.ObjectId);
+        await appendImagesToAlbum(value.album, imageIds);
+        const refreshed = await Gallery.find({ _id: { $in: imageIds } });
+        for (const result of uploaded) {
+          result.image = refreshed.find(image => image.id === result.image.id) ?? result.image;
+        }
+      }
+
+      const succeeded = uploaded.length;
+      const failed = results.length - succeeded;
+
+      res.status(failed === 0 ? 201 : succeeded > 0 ? 207 : 400).json({
+        success: succeeded > 0,
+        message: failed === 0
+          ? `${succeeded} image(s) uploaded successfully`
+          : `${succeeded} of ${results.length} image(s) uploaded`,
+        data: {
+          results,
+          succeeded,
+          failed
+        }
+      });
+
+    } catch (error) {
+      console.error('Bulk upload gallery images error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while uploading images'
+      });
+    }
   }
 
-  const uploadResult = await cloudinaryUtils.upload(req.file.buffer, 'hitech-institute/gallery');
-
-  const newImage = await Gallery.create({
-    title,
-    description,
-    image: {
-      url: uploadResult.secure_url,
-      publicId: uploadResult.public_id,
-      format: uploadResult.format,
-      size: uploadResult.bytes,
-      width: uploadResult.width,
-      height: uploadResult.height,
-    },
-    category,
-    date: parsedDate,
-    uploadedBy: (req as any).admin.adminId,
-  });
-
-  res.status(201).json({
-    success: true,
-    message: 'Image uploaded successfully',
-    data: newImage,
-  });
-});
-
-// @desc    Get all images from the gallery
-// @route   GET /api/gallery
-// @access  Public (or adjust based on your needs)
-export const getAllGalleryImages = asyncHandler(async (req: Request, res: Response) => {
-  const images = await Gallery.find().sort({ date: -1 }); // Sort by custom date
-
-  res.status(200).json({
-    success: true,
-    message: 'Gallery images fetched successfully',
-    images,
-  });
-});
-
-// @desc    Delete an image from the gallery
-// @route   DELETE /api/gallery/:id
-// @access  Private/Admin
-export const deleteGalleryImage = asyncHandler(async (req: Request, res: Response) => {
-  const image = await Gallery.findById(req.params.id);
-
-  if (!image) {
-    res.status(404);
-    throw new Error('Image not found');
+  /**
+   * Get gallery images, newest first, with filters and cursor pagination
+   * GET /api/gallery?category=&album=&from=&to=&search=&cursor=&limit=
+   */
+  static async getImages(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateGalleryQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { limit, cursor, category, album, from, to, search } = value;
+
+      const position = cursor ? GalleryController.decodeCursor(cursor) : null;
+      if (cursor && !position) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Cursor is invalid']
+        });
+        return;
+      }
+
+      const filter: Record<string, unknown> = {};
+      if (category) {
+        // Unknown category: nothing can match
+        const galleryCategory = await GalleryController.findCategory(category);
+        if (!galleryCategory) {
+          res.status(200).json({
+            success: true,
+            message: 'Gallery images fetched successfully',
+            data: {
+              images: [],
+              pagination: { totalItems: 0, itemsPerPage: limit, hasNextPage: false, hasPrevPage: Boolean(cursor), nextCursor: null }
+            }
+          });
+          return;
+        }
+        filter.category = galleryCategory._id;
+      }
+      if (album) filter.album = album;
+      if (from || to) {
+        filter.date = {
+          ...(from ? { $gte: from } : {}),
+          ...(to ? { $lte: to } : {})
+        };
+      }
+      if (search) filter.title = { $regex: escapeRegExp(search), $options: 'i' };
+
+      // Total matches for the filters, counted before the cursor narrows them down
+      const total = await Gallery.countDocuments(filter);
+
+      const conditions: Record<string, unknown>[] = [filter];
+      if (position) {
+        conditions.push({
+          $or: [
+            { date: { $lt: position.date } },
+            { date: position.date, _id: { $lt: position.id } }
+          ]
+        });
+      }
+
+      // One extra image tells whether another page follows
+      const images = await Gallery.find({ $and: conditions })
+        .populate('category', 'name slug')
+        .sort({ date: -1, _id: -1 })
+        .limit(limit + 1);
+      const hasNextPage = images.length > limit;
+      const pageImages = images.slice(0, limit);
+      const lastImage = pageImages[pageImages.length - 1];
+
+      res.status(200).json({
+        success: true,
+        message: 'Gallery images fetched successfully',
+        data: {
+          images: pageImages.map(image => ({
+            ...image.toJSON(),
+            srcset: image.image ? buildSrcSet(image.image) : {}
+          })),
+          pagination: {
+            totalItems: total,
+            itemsPerPage: limit,
+            hasNextPage,
+            hasPrevPage: Boolean(cursor),
+            nextCursor: hasNextPage && lastImage ? GalleryController.encodeCursor(lastImage) : null
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Get gallery images error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching gallery images'
+      });
+    }
   }
 
-  // Delete from Cloudinary
-  const publicId = image.image?.publicId;
+  /**
+   * Move an image to the gallery trash; the stored files are kept until the trash is purged
+   * DELETE /api/gallery/:id
+   */
+  static async deleteImage(req: Request, res: Response): Promise<void> {
+    try {
+      const image = await Gallery.findById(req.params.id);
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          message: 'Image not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(image);
+
+      const deletedAt = new Date();
+      const deletedBy = (req as any).admin.adminId;
+      await image.updateOne({ deletedAt, deletedBy });
+      image.set({ deletedAt, deletedBy });
+
+      await recordAudit(req, {
+        action: 'gallery.trash',
+        entityType: 'Gallery',
+        entityId: image.id,
+        before,
+        after: image
+      });
 
-  if (typeof publicId === 'string') {
-    await cloudinaryUtils.delete(publicId);
+      res.status(200).json({
+        success: true,
+        message: 'Image moved to trash',
+        data: {
+          id: image._id,
+          deletedAt,
+          purgeAfter: new Date(deletedAt.getTime() + config.TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        }
+      });
+
+    } catch (error) {
+      console.error('Delete gallery image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while deleting image'
+      });
+    }
   }
-  // Delete from DB
-  await image.deleteOne();
-
-  res.status(200).json({
-    success: true,
-    message: 'Image deleted successfully',
-  });
-});
-
-// @desc    Update image details in the gallery
-// @route   PUT /api/gallery/:id
-// @access  Private/Admin
-export const updateGalleryImage = asyncHandler(async (req: Request, res: Response) => {
-  const image = await Gallery.findById(req.params.id);
-
-  if (!image) {
-    res.status(404);
-    throw new Error('Image not found');
+
+  /**
+   * Get images in the gallery trash
+   * GET /api/gallery/trash
+   */
+  static async getTrash(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateTrashQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { page, limit } = value;
+      const skip = (page - 1) * limit;
+
+      const filter = { deletedAt: { $ne: null } };
+
+      const images = await Gallery.find(filter)
+        .populate('deletedBy', 'name email')
+        .sort({ deletedAt: -1 })
+        .skip(skip)
+        .limit(limit);
+
+      const total = await Gallery.countDocuments(filter);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trashed gallery images fetched successfully',
+        data: {
+          images,
+          retentionDays: config.TRASH_RETENTION_DAYS,
+          pagination: {
+            currentPage: page,
+            totalPages: Math.ceil(total / limit),
+            totalItems: total,
+            itemsPerPage: limit,
+            hasNextPage: page < Math.ceil(total / limit),
+            hasPrevPage: page > 1
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Get gallery trash error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching trashed images'
+      });
+    }
   }
 
-  const { title, description, category, date } = req.body;
-
-  // Update fields if provided
-  image.title = title || image.title;
-  image.description = description || image.description;
-  image.category = category || image.category;
-  if (date) {
-    const parsedDate = new Date(date);
-    if (isNaN(parsedDate.getTime())) {
-      res.status(400);
-      throw new Error('Invalid date format');
+  /**
+   * Restore an image from the gallery trash
+   * POST /api/gallery/:id/restore
+   */
+  static async restoreImage(req: Request, res: Response): Promise<void> {
+    try {
+      const image = await Gallery.findOneAndUpdate(
+        { _id: req.params.id, deletedAt: { $ne: null } },
+        { deletedAt: null, deletedBy: null },
+        { new: true }
+      );
+
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          message: 'Image not found in trash'
+        });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: 'gallery.trash_restore',
+        entityType: 'Gallery',
+        entityId: image.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Image restored from trash',
+        data: image
+      });
+
+    } catch (error) {
+      console.error('Restore gallery image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while restoring image'
+      });
     }
-    image.date = parsedDate;
   }
 
-  const updatedImage = await image.save();
+  /**
+   * Update image details in the gallery, optionally replacing the image file
+   * PUT /api/gallery/:id
+   */
+  static async updateImage(req: Request, res: Response): Promise<void> {
+    try {
+      if (req.file && !req.file.mimetype.startsWith('image/')) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Only image files can be added to the gallery']
+        });
+        return;
+      }
+
+      // Validate request body
+      const { error, value } = validateGalleryImageUpdate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const image = await Gallery.findById(req.params.id);
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          message: 'Image not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(image);
+
+      if (value.title !== undefined) image.title = value.title;
+      if (value.description !== undefined) image.description = value.description;
+      if (value.date !== undefined) image.date = value.date;
+
+      // Moving an image requires an active category; an image may stay in a now inactive one
+      if (value.category !== undefined) {
+        const galleryCategory = await GalleryController.findCategory(value.category);
+        if (!galleryCategory || (!galleryCategory.isActive && !image.category.equals(galleryCategory._id as Types.ObjectId))) {
+          res.status(400).json({
+            success: false,
+            message: 'Validation error',
+            errors: ['Category not found']
+          });
+          return;
+        }
+        image.category = galleryCategory._id as Types.ObjectId;
+      }
 
-  res.status(200).json({
-    success: true,
-    message: 'Image updated successfully',
-    data: updatedImage,
-  });
-});
\ No newline at end of file
+      // An empty album takes the image out of its album; a new album appends it at the end
+      const albumChanged = value.album !== undefined && String(value.album ?? '') !== String(image.album ?? '');
+      if (albumChanged && value.album && !(await Album.exists({ _id: value.album }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Album not found']
+        });
+        return;
+      }
+
+      // A replacement file is stored first; the old renditions are only deleted once the
+      // image points at the new ones, and the new files are removed again if saving fails
+      const previousPublicIds = image.image ? getGalleryImagePublicIds(image.image) : [];
+      const replacement = req.file ? await storeGalleryImage(req.file) : null;
+      if (replacement) {
+        image.set('image', replacement);
+      }
+
+      let updatedImage: IGallery;
+      try {
+        updatedImage = await image.save();
+      } catch (error) {
+        if (replacement) {
+          await deleteStoredFiles(getGalleryImagePublicIds(replacement));
+        }
+        throw error;
+      }
+
+      if (replacement) {
+        await deleteStoredFiles(previousPublicIds);
+      }
+
+      if (albumChanged) {
+        if (value.album) {
+          await appendImagesToAlbum(value.album, [image._id as Types.ObjectId]);
+        } else {
+          await removeImageFromAlbum(image._id as Types.ObjectId);
+        }
+        updatedImage = (await Gallery.findById(image._id))!;
+      }
+
+      await recordAudit(req, {
+        action: 'gallery.update',
+        entityType: 'Gallery',
+        entityId: image.id,
+        before,
+        after: updatedImage,
+        metadata: replacement ? { imageReplaced: true, previousImage: before?.image } : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        message: replacement ? 'Image replaced successfully' : 'Image updated successfully',
+        data: updatedImage
+      });
+
+    } catch (error) {
+      console.error('Update gallery image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating image'
+      });
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import { Request, Response } from 'express';
+import { INotice, Notice } from '../models/Notice';
+import { validateAttachmentCaption, validateAttachmentOrder, validateAttachmentUpload } from '../utils/validators';
+import { config } from '../config/environment';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+import { ensureBaselineRevision, recordNoticeRevision } from '../utils/noticeRevisions';
+import { deleteNoticeAttachmentFiles, uploadNoticeAttachments } from '../utils/noticeAttachments';
+
+/**
+ * Notice attachment management controller
+ *
+ * Each change is saved as a new notice revision. Files removed from a notice are
+ * not deleted from storage here; they stay with their revisions until pruned.
+ */
+export class NoticeAttachmentController {
+  /**
+   * Apply an update to a notice's attachments, recording a revision and an audit entry.
+   * Returns the updated notice, or null if it no longer exists or no longer matches
+   * the extra `conditions`.
+   */
+  private static async applyChange(
+    req: Request,
+    existingNotice: INotice,
+    update: Record<string, any>,
+    action: string,
+    metadata: Record<string, unknown>,
+    conditions: Record<string, unknown> = {}
+  ): Promise<INotice | null> {
+    const adminId = (req as any).admin.adminId;
+    const before = toPlainSnapshot(existingNotice);
+
+    // Make sure the pre-update content is kept before it is overwritten
+    await ensureBaselineRevision(existingNotice);
+
+    const notice = await Notice.findOneAndUpdate(
+      { ...conditions, _id: existingNotice._id },
+      {
+        ...update,
+        updatedBy: adminId,
+        $inc: { currentRevision: 1 }
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!notice) {
+      return null;
+    }
+
+    await recordNoticeRevision(notice, adminId, 'update');
+
+    await recordAudit(req, {
+      action,
+      entityType: 'Notice',
+      entityId: existingNotice.id,
+      before,
+      after: notice,
+      metadata
+    });
+
+    return notice;
+  }
+
+  /**
+   * Add attachments to the end of a notice's attachment list
+   * POST /api/notices/:id/attachments
+   */
+  static async addAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAttachmentUpload(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'No files uploaded'
+        });
+        return;
+      }
+
+      const existingNotice = await Notice.findById(req.params.id);
+      if (!existingNotice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      if (existingNotice.attachments.length + files.length > config.NOTICE_MAX_ATTACHMENTS) {
+        res.status(400).json({
+          success: false,
+          message: 'Too many files',
+          errors: [
+            `A notice can have at most ${config.NOTICE_MAX_ATTACHMENTS} attachments ` +
+            `(${existingNotice.attachments.length} already attached)`
+          ]
+        });
+        return;
+      }
+
+      let uploaded;
+      try {
+        uploaded = await uploadNoticeAttachments(files, value.captions);
+      } catch (uploadError) {
+        console.error('File upload error:', uploadError);
+        res.status(500).json({
+          success: false,
+          message: 'Failed to upload file to cloud storage'
+        });
+        return;
+      }
+
+      let notice;
+      try {
+        // Only push if there is still room, in case another upload landed meanwhile
+        notice = await NoticeAttachmentController.applyChange(
+          req,
+          existingNotice,
+          { $push: { attachments: { $each: uploaded } } },
+          'notice.attachment_add',
+          { attachments: uploaded.map(attachment => attachment.originalName) },
+          { [`attachments.${config.NOTICE_MAX_ATTACHMENTS - files.length}`]: { $exists: false } }
+        );
+      } catch (updateError) {
+        // Nothing references the new files yet, so remove them again
+        await deleteNoticeAttachmentFiles(uploaded);
+        throw updateError;
+      }
+
+      if (!notice) {
+        await deleteNoticeAttachmentFiles(uploaded);
+        res.status(400).json({
+          success: false,
+          message: 'Too many files',
+          errors: [`A notice can have at most ${config.NOTICE_MAX_ATTACHMENTS} attachments`]
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Attachments added successfully',
+        data: {
+          attachments: notice.attachments
+        }
+      });
+
+    } catch (error) {
+      console.error('Add notice attachments error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while adding notice attachments'
+      });
+    }
+  }
+
+  /**
+   * Reorder a notice's attachments
+   * PATCH /api/notices/:id/attachments/order
+   */
+  static async reorderAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAttachmentOrder(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const existingNotice = await Notice.findById(req.params.id);
+      if (!existingNotice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      const order: string[] = value.order;
+      const currentIds = existingNotice.attachments.map(attachment => attachment.id as string);
+      if (order.length !== currentIds.length || !currentIds.every(attachmentId => order.includes(attachmentId))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Order must list every attachment of the notice exactly once']
+        });
+        return;
+      }
+
+      const attachments = order.map(attachmentId => existingNotice.attachments.id(attachmentId)!.toObject());
+
+      const notice = await NoticeAttachmentController.applyChange(
+        req,
+        existingNotice,
+        { attachments },
+        'notice.attachment_reorder',
+        { order }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachments reordered successfully',
+        data: {
+          attachments: notice?.attachments ?? []
+        }
+      });
+
+    } catch (error) {
+      console.error('Reorder notice attachments error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while reordering notice attachments'
+      });
+    }
+  }
+
+  /**
+   * Update the caption of a single attachment
+   * PATCH /api/notices/:id/attachments/:attachmentId
+   */
+  static async updateAttachmentCaption(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateAttachmentCaption(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const existingNotice = await Notice.findById(req.params.id);
+      if (!existingNotice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      const attachmentId = req.params.attachmentId as string;
+      if (!existingNotice.attachments.id(attachmentId)) {
+        res.status(404).json({
+          success: false,
+          message: 'Attachment not found'
+        });
+        return;
+      }
+
+      const notice = await NoticeAttachmentController.applyChange(
+        req,
+        existingNotice,
+        {
+          attachments: existingNotice.attachments.map(attachment => ({
+            ...attachment.toObject(),
+            caption: attachment.id === attachmentId ? value.caption : attachment.caption
+          }))
+        },
+        'notice.attachment_caption',
+        { attachmentId }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachment caption updated successfully',
+        data: {
+          attachment: notice?.attachments.id(attachmentId) ?? null
+        }
+      });
+
+    } catch (error) {
+      console.error('Update notice attachment caption error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating attachment caption'
+      });
+    }
+  }
+
+  /**
+   * Remove a single attachment from a notice
+   * DELETE /api/notices/:id/attachments/:attachmentId
+   */
+  static async removeAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const existingNotice = await Notice.findById(req.params.id);
+      if (!existingNotice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      const attachmentId = req.params.attachmentId as string;
+      const attachment = existingNotice.attachments.id(attachmentId);
+      if (!attachment) {
+        res.status(404).json({
+          success: false,
+          message: 'Attachment not found'
+        });
+        return;
+      }
+
+      const notice = await NoticeAttachmentController.applyChange(
+        req,
+        existingNotice,
+        { $pull: { attachments: { _id: attachment._id } } },
+        'notice.attachment_remove',
+        { attachmentId, originalName: attachment.originalName }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachment removed successfully',
+        data: {
+          attachments: notice?.attachments ?? []
+        }
+      });
+
+    } catch (error) {
+      console.error('Remove notice attachment error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while removing notice attachment'
+      });
+    }
+  }
+}
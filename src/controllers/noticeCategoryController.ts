@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { NoticeCategory } from '../models/NoticeCategory';
+import { Notice } from '../models/Notice';
+import { validateNoticeCategory } from '../utils/validators';
+import { slugify } from '../utils/slugify';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+
+/**
+ * Notice category management controller
+ */
+export class NoticeCategoryController {
+  /**
+   * Get all notice categories
+   * GET /api/notices/categories
+   */
+  static async getCategories(req: Request, res: Response): Promise<void> {
+    try {
+      const categories = await NoticeCategory.find().sort({ displayOrder: 1, name: 1 });
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice categories retrieved successfully',
+        data: {
+          categories
+        }
+      });
+
+    } catch (error) {
+      console.error('Get notice categories error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching notice categories'
+      });
+    }
+  }
+
+  /**
+   * Create a notice category
+   * POST /api/notices/categories
+   */
+  static async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateNoticeCategory(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const slug = slugify(value.name);
+      if (!slug) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category name must contain letters or digits']
+        });
+        return;
+      }
+
+      if (await NoticeCategory.exists({ slug })) {
+        res.status(409).json({
+          success: false,
+          message: 'A category with this name already exists'
+        });
+        return;
+      }
+
+      const adminId = (req as any).admin.adminId;
+      const category = await NoticeCategory.create({
+        ...value,
+        createdBy: adminId,
+        updatedBy: adminId
+      });
+
+      await recordAudit(req, {
+        action: 'notice_category.create',
+        entityType: 'NoticeCategory',
+        entityId: category.id,
+        after: category
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Notice category created successfully',
+        data: {
+          category
+        }
+      });
+
+    } catch (error) {
+      console.error('Create notice category error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating notice category'
+      });
+    }
+  }
+
+  /**
+   * Update a notice category
+   * PUT /api/notices/categories/:id
+   */
+  static async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateNoticeCategory(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const category = await NoticeCategory.findById(req.params.id);
+      if (!category) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice category not found'
+        });
+        return;
+      }
+
+      const slug = slugify(value.name);
+      if (!slug) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category name must contain letters or digits']
+        });
+        return;
+      }
+
+      if (await NoticeCategory.exists({ slug, _id: { $ne: category._id } })) {
+        res.status(409).json({
+          success: false,
+          message: 'A category with this name already exists'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(category);
+
+      category.set({ ...value, updatedBy: (req as any).admin.adminId });
+      await category.save();
+
+      await recordAudit(req, {
+        action: 'notice_category.update',
+        entityType: 'NoticeCategory',
+        entityId: category.id,
+        before,
+        after: category
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice category updated successfully',
+        data: {
+          category
+        }
+      });
+
+    } catch (error) {
+      console.error('Update notice category error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating notice category'
+      });
+    }
+  }
+
+  /**
+   * Delete a notice category that no notice uses
+   * DELETE /api/notices/categories/:id
+   */
+  static async deleteCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const category = await NoticeCategory.findById(req.params.id);
+      if (!category) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice category not found'
+        });
+        return;
+      }
+
+      // Trashed notices count too, since they can still be restored
+      const noticeCount = await Notice.countDocuments({ category: category._id }).setOptions({ withDeleted: true });
+      if (noticeCount > 0) {
+        res.status(409).json({
+          success: false,
+          message: `Category is used by ${noticeCount} notice(s); move them to another category first`
+        });
+        return;
+      }
+
+      await category.deleteOne();
+
+      await recordAudit(req, {
+        action: 'notice_category.delete',
+        entityType: 'NoticeCategory',
+        entityId: category.id,
+        before: category
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice category deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Delete notice category error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while deleting notice category'
+      });
+    }
+  }
+}
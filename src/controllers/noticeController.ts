@@ -1,14 +1,146 @@
 import { Request, Response } from 'express';
-import { Notice } from '../models/Notice';
-import { validateNotice } from '../utils/validators';
-import { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
-import fs from 'fs';
-import path from 'path';
+import { SortOrder } from 'mongoose';
+import { INotice, NOTICE_PRIORITIES, Notice, NoticePriority, getNoticeStatusFilter, getPublicNoticeFilter, getScheduleTimestamps } from '../models/Notice';
+import { NoticeCategory } from '../models/NoticeCategory';
+import {
+  validateAdminNoticeQuery,
+  validateHighlightsQuery,
+  validateNotice,
+  validateObjectId,
+  validatePin,
+  validateQueryParams,
+  validateTrashQuery
+} from '../utils/validators';
+import { highlightSnippet, parseSearchTerms } from '../utils/highlight';
+import { config } from '../config/environment';
+import { recordAudit } from '../utils/auditLogger';
+import { toPlainSnapshot } from '../utils/diff';
+import { ensureBaselineRevision, recordNoticeRevision } from '../utils/noticeRevisions';
+import { deleteNoticeAttachmentFiles, uploadNoticeAttachments } from '../utils/noticeAttachments';
 
 /**
  * Notice management controller
  */
 export class NoticeController {
+  /**
+   * Sort orders for the public notice listing (pinned notices always come first)
+   */
+  private static readonly SORT_OPTIONS: Record<string, Record<string, SortOrder | { $meta: 'textScore' }>> = {
+    relevance: { pinned: -1, score: { $meta: 'textScore' } },
+    newest: { pinned: -1, date: -1, createdAt: -1 },
+    oldest: { pinned: -1, date: 1, createdAt: 1 },
+    title: { pinned: -1, title: 1, date: -1 }
+  };
+
+  /**
+   * Ranking of priorities for the highlights feed (most important first)
+   */
+  private static readonly PRIORITY_RANK: Record<NoticePriority, number> = {
+    urgent: 0,
+    important: 1,
+    normal: 2
+  };
+
+  /**
+   * Filters for the attachmentType query parameter
+   */
+  private static readonly ATTACHMENT_TYPE_FILTERS: Record<string, Record<string, any>> = {
+    image: { 'attachments.mimeType': /^image\// },
+    pdf: { 'attachments.mimeType': 'application/pdf' },
+    document: { attachments: { $elemMatch: { mimeType: { $nin: ['application/pdf', /^image\//] } } } },
+    none: { 'attachments.0': { $exists: false } }
+  };
+
+  /**
+   * Build query conditions shared by the public and admin listings: date range,
+   * attachment type, category (ID or slug), tag and audience.
+   * Returns null when the requested category does not exist.
+   */
+  private static async buildListingConditions(query: {
+    from?: Date;
+    to?: Date;
+    attachmentType?: string;
+    category?: string;
+    tag?: string;
+    department?: string;
+    year?: number;
+  }): Promise<Record<string, any>[] | null> {
+    const conditions: Record<string, any>[] = [];
+
+    if (query.from || query.to) {
+      const date: Record<string, Date> = {};
+      if (query.from) date.$gte = query.from;
+      if (query.to) date.$lte = query.to;
+      conditions.push({ date });
+    }
+
+    if (query.attachmentType) {
+      conditions.push(NoticeController.ATTACHMENT_TYPE_FILTERS[query.attachmentType]!);
+    }
+
+    if (query.category) {
+      const category = await NoticeCategory.findOne(
+        validateObjectId(query.category).error ? { slug: query.category } : { _id: query.category }
+      ).select('_id');
+      if (!category) {
+        return null;
+      }
+      conditions.push({ category: category._id });
+    }
+
+    if (query.tag) {
+      conditions.push({ tags: query.tag });
+    }
+
+    // Notices without a department/year list are meant for all students
+    if (query.department) {
+      conditions.push({
+        $or: [
+          { 'audience.departments.0': { $exists: false } },
+          { 'audience.departments': query.department }
+        ]
+      });
+    }
+    if (query.year) {
+      conditions.push({
+        $or: [
+          { 'audience.years.0': { $exists: false } },
+          { 'audience.years': query.year }
+        ]
+      });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Send an empty listing page (used when a filter can never match)
+   */
+  private static sendEmptyPage(res: Response, page: number, limit: number): void {
+    res.status(200).json({
+      success: true,
+      message: 'Notices retrieved successfully',
+      data: {
+        notices: [],
+        pagination: {
+          currentPage: page,
+          totalPages: 0,
+          totalItems: 0,
+          itemsPerPage: limit,
+          hasNextPage: false,
+          hasPrevPage: page > 1
+        }
+      }
+    });
+  }
+
+  /**
+   * Check that a category ID from the request body refers to an existing category
+   */
+  private static async categoryExists(category: string | null | undefined): Promise<boolean> {
+    return !category || !!(await NoticeCategory.exists({ _id: category }));
+  }
+
   /**
    * Create a new notice
    * POST /api/notices
@@ -26,57 +158,42 @@ export class NoticeController {
         return;
       }
 
-      const { title, description, date } = value;
+      const { title, description, date, publishAt, expiresAt, category, tags, audience, priority, captions } = value;
       const adminId = (req as any).admin.adminId;
 
+      if (!(await NoticeController.categoryExists(category))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category not found']
+        });
+        return;
+      }
+
       // Prepare notice data
       const noticeData: any = {
         title,
         description,
         date: date ? new Date(date) : new Date(),
+        publishAt: publishAt || null,
+        expiresAt: expiresAt || null,
+        category: category || null,
+        tags: tags || [],
+        audience: audience || {},
+        priority: priority || 'normal',
+        currentRevision: 1,
         createdBy: adminId,
         updatedBy: adminId
       };
+      Object.assign(noticeData, getScheduleTimestamps({ ...noticeData, isActive: true }));
 
-      // Handle file upload to Cloudinary if file was uploaded
-      if (req.file) {
+      // Upload attachments in the order they were sent
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length > 0) {
         try {
-          // Create temporary file path from buffer
-          const tempFileName = `temp_${Date.now()}_${req.file.originalname}`;
-          const tempFilePath = path.join(process.cwd(), 'uploads', tempFileName);
-          
-          // Ensure uploads directory exists
-          const uploadsDir = path.join(process.cwd(), 'uploads');
-          if (!fs.existsSync(uploadsDir)) {
-            fs.mkdirSync(uploadsDir, { recursive: true });
-          }
-          
-          // Write buffer to temporary file
-          fs.writeFileSync(tempFilePath, req.file.buffer);
-          
-          // Upload to Cloudinary
-          const cloudinaryResult = await uploadToCloudinary(tempFilePath, {
-            public_id: `notice_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
-          });
-          
-          // Delete temporary file
-          fs.unlinkSync(tempFilePath);
-          
-          // Add Cloudinary file information
-          noticeData.attachment = {
-            filename: req.file.originalname,
-            originalName: req.file.originalname,
-            url: cloudinaryResult.url,
-            publicId: cloudinaryResult.publicId,
-            size: req.file.size,
-            mimeType: req.file.mimetype,
-            format: cloudinaryResult.format,
-            resourceType: cloudinaryResult.resourceType,
-            width: cloudinaryResult.width,
-            height: cloudinaryResult.height
-          };
+          noticeData.attachments = await uploadNoticeAttachments(files, captions);
         } catch (uploadError) {
-          console.error('Cloudinary upload error:', uploadError);
+          console.error('File upload error:', uploadError);
           res.status(500).json({
             success: false,
             message: 'Failed to upload file to cloud storage'
@@ -85,12 +202,28 @@ export class NoticeController {
         }
       }
 
-      // Create notice
+      // Create notice (removing the uploaded files again if it can't be saved)
       const notice = new Notice(noticeData);
-      await notice.save();
+      try {
+        await notice.save();
+      } catch (saveError) {
+        await deleteNoticeAttachmentFiles(noticeData.attachments ?? []);
+        throw saveError;
+      }
+      await recordNoticeRevision(notice, adminId, 'create');
+
+      await recordAudit(req, {
+        action: 'notice.create',
+        entityType: 'Notice',
+        entityId: notice.id,
+        after: notice
+      });
 
-      // Populate creator information
-      await notice.populate('createdBy', 'name email');
+      // Populate creator and category information
+      await notice.populate([
+        { path: 'category', select: 'name slug' },
+        { path: 'createdBy', select: 'name email' }
+      ]);
 
       res.status(201).json({
         success: true,
@@ -111,31 +244,66 @@ export class NoticeController {
   }
 
   /**
-   * Get all notices
-   * GET /api/notices
+   * Get all published notices with optional search, filters and sorting
+   * GET /api/notices?search=&from=&to=&attachmentType=&sort=&page=&limit=
    */
   static async getAllNotices(req: Request, res: Response): Promise<void> {
     try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
+      // Validate query parameters
+      const { error, value } = validateQueryParams(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { page, limit, search, sort } = value;
       const skip = (page - 1) * limit;
 
-      // Get notices with pagination
-      const notices = await Notice.find()
+      // Extra filters on top of the public visibility filter
+      const conditions = await NoticeController.buildListingConditions(value);
+      if (conditions === null) {
+        NoticeController.sendEmptyPage(res, page, limit);
+        return;
+      }
+
+      // Text search ranks by relevance; otherwise list published notices
+      const query = search ? Notice.searchByText(search) : Notice.findActive();
+      if (conditions.length > 0) {
+        query.and(conditions);
+      }
+      query.sort(NoticeController.SORT_OPTIONS[sort as string], { override: true });
+
+      // Get total count for pagination
+      const total = await Notice.countDocuments(query.getFilter());
+
+      const notices = await query
+        .populate('category', 'name slug')
         .populate('createdBy', 'name email')
         .populate('updatedBy', 'name email')
-        .sort({ date: -1, createdAt: -1 })
         .skip(skip)
         .limit(limit);
 
-      // Get total count for pagination
-      const total = await Notice.countDocuments();
+      // Add highlighted snippets of the matched terms
+      const terms = search ? parseSearchTerms(search) : [];
+      const results = search
+        ? notices.map(notice => ({
+          ...notice.toJSON(),
+          highlights: {
+            title: highlightSnippet(notice.title, terms),
+            description: highlightSnippet(notice.description, terms)
+          }
+        }))
+        : notices;
 
       res.status(200).json({
         success: true,
         message: 'Notices retrieved successfully',
         data: {
-          notices,
+          notices: results,
           pagination: {
             currentPage: page,
             totalPages: Math.ceil(total / limit),
@@ -157,14 +325,149 @@ export class NoticeController {
   }
 
   /**
-   * Get a single notice by ID
+   * Get counts of published notices per category, tag, department and year
+   * GET /api/notices/facets
+   */
+  static async getFacets(req: Request, res: Response): Promise<void> {
+    try {
+      const [result] = await Notice.aggregate([
+        { $match: getPublicNoticeFilter() },
+        {
+          $facet: {
+            categories: [
+              { $group: { _id: '$category', count: { $sum: 1 } } },
+              { $sort: { count: -1 } }
+            ],
+            tags: [
+              { $unwind: '$tags' },
+              { $group: { _id: '$tags', count: { $sum: 1 } } },
+              { $sort: { count: -1, _id: 1 } },
+              { $limit: 50 }
+            ],
+            departments: [
+              { $unwind: '$audience.departments' },
+              { $group: { _id: '$audience.departments', count: { $sum: 1 } } },
+              { $sort: { count: -1, _id: 1 } }
+            ],
+            years: [
+              { $unwind: '$audience.years' },
+              { $group: { _id: '$audience.years', count: { $sum: 1 } } },
+              { $sort: { _id: 1 } }
+            ]
+          }
+        }
+      ]);
+
+      // Attach category names (null groups notices without a category)
+      const categories = await NoticeCategory.find({
+        _id: { $in: result.categories.map((facet: any) => facet._id).filter(Boolean) }
+      }).select('name slug');
+      const categoriesById = new Map(categories.map(category => [category.id, category]));
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice facets retrieved successfully',
+        data: {
+          categories: result.categories.map((facet: any) => {
+            const category = facet._id ? categoriesById.get(facet._id.toString()) : null;
+            return {
+              id: facet._id,
+              name: category?.name ?? 'Uncategorized',
+              slug: category?.slug ?? null,
+              count: facet.count
+            };
+          }),
+          tags: result.tags.map((facet: any) => ({ tag: facet._id, count: facet.count })),
+          departments: result.departments.map((facet: any) => ({ department: facet._id, count: facet.count })),
+          years: result.years.map((facet: any) => ({ year: facet._id, count: facet.count }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Get notice facets error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching notice facets'
+      });
+    }
+  }
+
+  /**
+   * Get pinned and important/urgent published notices for the homepage ticker
+   * GET /api/notices/highlights
+   */
+  static async getHighlights(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateHighlightsQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const now = new Date();
+      const activePin = { pinned: true, $or: [{ pinnedUntil: null }, { pinnedUntil: { $gt: now } }] };
+      const priorities = [...NOTICE_PRIORITIES]
+        .sort((a, b) => NoticeController.PRIORITY_RANK[a] - NoticeController.PRIORITY_RANK[b]);
+
+      // Pinned first, then by priority, then newest. Each tier is its own query so
+      // older pinned or urgent notices can't be crowded out by newer, lower-ranked ones.
+      const tiers = [
+        ...priorities.map(priority => ({ ...activePin, priority })),
+        ...priorities
+          .filter(priority => priority !== 'normal')
+          .map(priority => ({ $nor: [activePin], priority }))
+      ];
+
+      const highlights: INotice[] = [];
+      for (const tier of tiers) {
+        if (highlights.length >= value.limit) {
+          break;
+        }
+
+        const notices = await Notice.findActive()
+          .and([tier])
+          .select('title priority pinned pinnedUntil date publishedAt category')
+          .populate('category', 'name slug')
+          .sort({ date: -1, createdAt: -1 })
+          .limit(value.limit - highlights.length);
+
+        highlights.push(...notices);
+      }
+
+      // Let browsers and proxies absorb frequent ticker polling
+      res.set('Cache-Control', 'public, max-age=60');
+      res.status(200).json({
+        success: true,
+        message: 'Notice highlights retrieved successfully',
+        data: {
+          highlights
+        }
+      });
+
+    } catch (error) {
+      console.error('Get notice highlights error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching notice highlights'
+      });
+    }
+  }
+
+  /**
+   * Get a single published notice by ID
    * GET /api/notices/:id
    */
   static async getNoticeById(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
 
-      const notice = await Notice.findById(id)
+      const notice = await Notice.findOne({ _id: id, ...getPublicNoticeFilter() })
+        .populate('category', 'name slug')
         .populate('createdBy', 'name email')
         .populate('updatedBy', 'name email');
 
@@ -193,6 +496,73 @@ export class NoticeController {
     }
   }
 
+  /**
+   * Get all notices, published or not, with their status
+   * GET /api/notices/admin?status=published|unpublished|upcoming|expired
+   */
+  static async getAdminNotices(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateAdminNoticeQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { page, limit, status } = value;
+      const skip = (page - 1) * limit;
+
+      const conditions = await NoticeController.buildListingConditions(value);
+      if (conditions === null) {
+        NoticeController.sendEmptyPage(res, page, limit);
+        return;
+      }
+
+      const filter = status ? getNoticeStatusFilter(status) : {};
+      if (conditions.length > 0) {
+        filter.$and = [...(filter.$and || []), ...conditions];
+      }
+
+      const [notices, total] = await Promise.all([
+        Notice.find(filter)
+          .populate('category', 'name slug')
+          .populate('createdBy', 'name email')
+          .populate('updatedBy', 'name email')
+          .sort({ pinned: -1, date: -1, createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        Notice.countDocuments(filter)
+      ]);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notices retrieved successfully',
+        data: {
+          notices: notices.map(notice => ({ ...notice.toJSON(), status: notice.get('status') })),
+          pagination: {
+            currentPage: page,
+            totalPages: Math.ceil(total / limit),
+            totalItems: total,
+            itemsPerPage: limit,
+            hasNextPage: page < Math.ceil(total / limit),
+            hasPrevPage: page > 1
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Get admin notices error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching notices'
+      });
+    }
+  }
+
   /**
    * Update a notice
    * PUT /api/notices/:id
@@ -212,6 +582,8 @@ export class NoticeController {
         return;
       }
 
+      const before = toPlainSnapshot(existingNotice);
+
       // Validate request body
       const { error, value } = validateNotice(req.body);
       if (error) {
@@ -223,61 +595,54 @@ export class NoticeController {
         return;
       }
 
-      const { title, description, date } = value;
+      const { title, description, date, publishAt, expiresAt, category, tags, audience, priority, captions } = value;
+
+      if (!(await NoticeController.categoryExists(category))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category not found']
+        });
+        return;
+      }
+
+      // Omitted publish window fields keep their current values; empty values clear them
+      const schedule = {
+        isActive: existingNotice.isActive,
+        publishAt: publishAt !== undefined ? publishAt || null : existingNotice.publishAt,
+        expiresAt: expiresAt !== undefined ? expiresAt || null : existingNotice.expiresAt,
+        publishedAt: existingNotice.publishedAt,
+        expiredAt: existingNotice.expiredAt
+      };
+      if (schedule.publishAt && schedule.expiresAt && schedule.expiresAt <= schedule.publishAt) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Expiry must be after the publish time']
+        });
+        return;
+      }
 
       // Prepare update data
       const updateData: any = {
         title,
         description,
         date: date ? new Date(date) : existingNotice.date,
+        publishAt: schedule.publishAt,
+        expiresAt: schedule.expiresAt,
+        ...getScheduleTimestamps(schedule),
         updatedBy: adminId,
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        $inc: { currentRevision: 1 }
       };
 
-      // Handle file replacement with Cloudinary
-      if (req.file) {
+      // New uploads replace the whole attachment list (old files stay with their revisions until pruned)
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length > 0) {
         try {
-          // Delete old file from Cloudinary if it exists
-          if (existingNotice.attachment?.publicId) {
-            await deleteFromCloudinary(existingNotice.attachment.publicId);
-          }
-
-          // Create temporary file path from buffer
-          const tempFileName = `temp_${Date.now()}_${req.file.originalname}`;
-          const tempFilePath = path.join(process.cwd(), 'uploads', tempFileName);
-          
-          // Ensure uploads directory exists
-          const uploadsDir = path.join(process.cwd(), 'uploads');
-          if (!fs.existsSync(uploadsDir)) {
-            fs.mkdirSync(uploadsDir, { recursive: true });
-          }
-          
-          // Write buffer to temporary file
-          fs.writeFileSync(tempFilePath, req.file.buffer);
-          
-          // Upload to Cloudinary
-          const cloudinaryResult = await uploadToCloudinary(tempFilePath, {
-            public_id: `notice_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
-          });
-          
-          // Delete temporary file
-          fs.unlinkSync(tempFilePath);
-
-          // Add new Cloudinary file information
-          updateData.attachment = {
-            filename: req.file.originalname,
-            originalName: req.file.originalname,
-            url: cloudinaryResult.url,
-            publicId: cloudinaryResult.publicId,
-            size: req.file.size,
-            mimeType: req.file.mimetype,
-            format: cloudinaryResult.format,
-            resourceType: cloudinaryResult.resourceType,
-            width: cloudinaryResult.width,
-            height: cloudinaryResult.height
-          };
+          updateData.attachments = await uploadNoticeAttachments(files, captions);
         } catch (uploadError) {
-          console.error('Cloudinary upload error:', uploadError);
+          console.error('File upload error:', uploadError);
           res.status(500).json({
             success: false,
             message: 'Failed to upload file to cloud storage'
@@ -286,13 +651,45 @@ export class NoticeController {
         }
       }
 
-      // Update notice
-      const notice = await Notice.findByIdAndUpdate(
-        id,
-        updateData,
-        { new: true, runValidators: true }
-      ).populate('createdBy', 'name email')
-       .populate('updatedBy', 'name email');
+      // Omitted taxonomy fields keep their current values
+      if (category !== undefined) updateData.category = category || null;
+      if (tags !== undefined) updateData.tags = tags;
+      if (audience !== undefined) updateData.audience = audience;
+      if (priority !== undefined) updateData.priority = priority;
+
+      // Make sure the pre-update content is kept before it is overwritten
+      await ensureBaselineRevision(existingNotice);
+
+      // Update notice (removing newly uploaded files again if it can't be saved)
+      let notice;
+      try {
+        notice = await Notice.findByIdAndUpdate(
+          id,
+          updateData,
+          { new: true, runValidators: true }
+        );
+      } catch (updateError) {
+        await deleteNoticeAttachmentFiles(updateData.attachments ?? []);
+        throw updateError;
+      }
+
+      if (notice) {
+        await recordNoticeRevision(notice, adminId, 'update');
+      }
+
+      await recordAudit(req, {
+        action: 'notice.update',
+        entityType: 'Notice',
+        entityId: id,
+        before,
+        after: notice
+      });
+
+      await notice?.populate([
+        { path: 'category', select: 'name slug' },
+        { path: 'createdBy', select: 'name email' },
+        { path: 'updatedBy', select: 'name email' }
+      ]);
 
       res.status(200).json({
         success: true,
@@ -313,10 +710,25 @@ export class NoticeController {
   }
 
   /**
-   * Delete a notice
-   * DELETE /api/notices/:id
+   * Publish a notice (make it visible to the public)
+   * PATCH /api/notices/:id/publish
    */
-  static async deleteNotice(req: Request, res: Response): Promise<void> {
+  static async publishNotice(req: Request, res: Response): Promise<void> {
+    await NoticeController.setPublished(req, res, true);
+  }
+
+  /**
+   * Unpublish a notice (hide it from the public)
+   * PATCH /api/notices/:id/unpublish
+   */
+  static async unpublishNotice(req: Request, res: Response): Promise<void> {
+    await NoticeController.setPublished(req, res, false);
+  }
+
+  /**
+   * Shared publish/unpublish handler
+   */
+  private static async setPublished(req: Request, res: Response, publish: boolean): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -329,26 +741,212 @@ export class NoticeController {
         return;
       }
 
-      // Delete associated file from Cloudinary if it exists
-      if (notice.attachment?.publicId) {
-        try {
-          await deleteFromCloudinary(notice.attachment.publicId);
-        } catch (cloudinaryError) {
-          console.error('Error deleting file from Cloudinary:', cloudinaryError);
-          // Continue with notice deletion even if Cloudinary deletion fails
+      if (notice.isActive === publish) {
+        res.status(409).json({
+          success: false,
+          message: publish ? 'Notice is already published' : 'Notice is already unpublished'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(notice);
+
+      notice.updatedBy = (req as any).admin.adminId;
+      notice.set(getScheduleTimestamps({ ...notice.toObject(), isActive: publish }));
+      if (publish) {
+        await notice.activate();
+      } else {
+        await notice.deactivate();
+      }
+
+      await recordAudit(req, {
+        action: publish ? 'notice.publish' : 'notice.unpublish',
+        entityType: 'Notice',
+        entityId: id,
+        before,
+        after: notice
+      });
+
+      res.status(200).json({
+        success: true,
+        message: publish ? 'Notice published successfully' : 'Notice unpublished successfully',
+        data: {
+          notice: { ...notice.toJSON(), status: notice.get('status') }
+        }
+      });
+
+    } catch (error) {
+      console.error(`${publish ? 'Publish' : 'Unpublish'} notice error:`, error);
+      res.status(500).json({
+        success: false,
+        message: `Internal server error while ${publish ? 'publishing' : 'unpublishing'} notice`
+      });
+    }
+  }
+
+  /**
+   * Pin a notice to the top of listings, optionally until a given time
+   * PATCH /api/notices/:id/pin
+   */
+  static async pinNotice(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validatePin(req.body || {});
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const notice = await Notice.findById(id);
+      if (!notice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(notice);
+
+      await notice.updateOne({
+        pinned: true,
+        pinnedUntil: value.pinnedUntil || null,
+        updatedBy: (req as any).admin.adminId
+      });
+      notice.set({ pinned: true, pinnedUntil: value.pinnedUntil || null });
+
+      await recordAudit(req, {
+        action: 'notice.pin',
+        entityType: 'Notice',
+        entityId: id,
+        before,
+        after: notice
+      });
+
+      res.status(200).json({
+        success: true,
+        message: value.pinnedUntil ? `Notice pinned until ${value.pinnedUntil.toISOString()}` : 'Notice pinned',
+        data: {
+          notice
+        }
+      });
+
+    } catch (error) {
+      console.error('Pin notice error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while pinning notice'
+      });
+    }
+  }
+
+  /**
+   * Unpin a notice
+   * PATCH /api/notices/:id/unpin
+   */
+  static async unpinNotice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const notice = await Notice.findById(id);
+      if (!notice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      if (!notice.pinned) {
+        res.status(409).json({
+          success: false,
+          message: 'Notice is not pinned'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(notice);
+
+      await notice.updateOne({
+        pinned: false,
+        pinnedUntil: null,
+        updatedBy: (req as any).admin.adminId
+      });
+      notice.set({ pinned: false, pinnedUntil: null });
+
+      await recordAudit(req, {
+        action: 'notice.unpin',
+        entityType: 'Notice',
+        entityId: id,
+        before,
+        after: notice
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice unpinned',
+        data: {
+          notice
         }
+      });
+
+    } catch (error) {
+      console.error('Unpin notice error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while unpinning notice'
+      });
+    }
+  }
+
+  /**
+   * Move a notice to the trash
+   * DELETE /api/notices/:id
+   */
+  static async deleteNotice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const adminId = (req as any).admin.adminId;
+
+      const notice = await Notice.findById(id);
+      if (!notice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
       }
 
-      // Delete notice from database
-      await Notice.findByIdAndDelete(id);
+      const before = toPlainSnapshot(notice);
+
+      // Files and revisions are kept until the trash is purged
+      const deletedAt = new Date();
+      await notice.updateOne({ deletedAt, deletedBy: adminId });
+      notice.set({ deletedAt, deletedBy: adminId });
+
+      await recordAudit(req, {
+        action: 'notice.trash',
+        entityType: 'Notice',
+        entityId: id,
+        before,
+        after: notice
+      });
 
       res.status(200).json({
         success: true,
-        message: 'Notice deleted successfully',
+        message: 'Notice moved to trash',
         data: {
           deletedNotice: {
             id: notice._id,
-            title: notice.title
+            title: notice.title,
+            deletedAt,
+            purgeAfter: new Date(deletedAt.getTime() + config.TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
           }
         }
       });
@@ -361,4 +959,111 @@ export class NoticeController {
       });
     }
   }
+
+  /**
+   * Get notices in the trash
+   * GET /api/notices/trash
+   */
+  static async getTrashedNotices(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateTrashQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { page, limit } = value;
+      const skip = (page - 1) * limit;
+
+      const filter = { deletedAt: { $ne: null } };
+
+      const notices = await Notice.find(filter)
+        .populate('createdBy', 'name email')
+        .populate('deletedBy', 'name email')
+        .sort({ deletedAt: -1 })
+        .skip(skip)
+        .limit(limit);
+
+      const total = await Notice.countDocuments(filter);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trashed notices retrieved successfully',
+        data: {
+          notices,
+          retentionDays: config.TRASH_RETENTION_DAYS,
+          pagination: {
+            currentPage: page,
+            totalPages: Math.ceil(total / limit),
+            totalItems: total,
+            itemsPerPage: limit,
+            hasNextPage: page < Math.ceil(total / limit),
+            hasPrevPage: page > 1
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Get trashed notices error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching trashed notices'
+      });
+    }
+  }
+
+  /**
+   * Restore a notice from the trash
+   * POST /api/notices/:id/restore
+   */
+  static async restoreNotice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const notice = await Notice.findOneAndUpdate(
+        { _id: id, deletedAt: { $ne: null } },
+        { deletedAt: null, deletedBy: null, updatedBy: (req as any).admin.adminId },
+        { new: true }
+      );
+
+      if (!notice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found in trash'
+        });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: 'notice.trash_restore',
+        entityType: 'Notice',
+        entityId: id
+      });
+
+      await notice.populate([
+        { path: 'createdBy', select: 'name email' },
+        { path: 'updatedBy', select: 'name email' }
+      ]);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice restored from trash',
+        data: {
+          notice
+        }
+      });
+
+    } catch (error) {
+      console.error('Restore notice error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while restoring notice'
+      });
+    }
+  }
 }
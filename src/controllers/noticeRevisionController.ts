@@ -0,0 +1,255 @@
+import { Request, Response } from 'express';
+import { Notice } from '../models/Notice';
+import { NoticeRevision } from '../models/NoticeRevision';
+import { NoticeCategory } from '../models/NoticeCategory';
+import { validateRevisionDiffQuery, validateRevisionNumber } from '../utils/validators';
+import { diffObjects, toPlainSnapshot } from '../utils/diff';
+import { recordAudit } from '../utils/auditLogger';
+import { recordNoticeRevision, toRevisionSnapshot } from '../utils/noticeRevisions';
+
+/**
+ * Notice revision history controller
+ */
+export class NoticeRevisionController {
+  /**
+   * Parse the :rev route parameter, sending a 400 response if it is invalid
+   */
+  private static parseRevisionParam(req: Request, res: Response): number | null {
+    const { error, value } = validateRevisionNumber(req.params.rev);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * List all saved revisions of a notice (newest first)
+   * GET /api/notices/:id/revisions
+   */
+  static async getRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const notice = await Notice.findById(id).select('currentRevision');
+      if (!notice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      const revisions = await NoticeRevision.find({ notice: id })
+        .populate('createdBy', 'name email')
+        .sort({ revision: -1 });
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice revisions retrieved successfully',
+        data: {
+          currentRevision: notice.currentRevision,
+          revisions
+        }
+      });
+
+    } catch (error) {
+      console.error('Get notice revisions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching notice revisions'
+      });
+    }
+  }
+
+  /**
+   * Get a single revision of a notice
+   * GET /api/notices/:id/revisions/:rev
+   */
+  static async getRevision(req: Request, res: Response): Promise<void> {
+    try {
+      const revisionNumber = NoticeRevisionController.parseRevisionParam(req, res);
+      if (revisionNumber === null) return;
+
+      const revision = await NoticeRevision.findOne({ notice: req.params.id, revision: revisionNumber })
+        .populate('createdBy', 'name email');
+
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          message: 'Revision not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice revision retrieved successfully',
+        data: {
+          revision
+        }
+      });
+
+    } catch (error) {
+      console.error('Get notice revision error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching notice revision'
+      });
+    }
+  }
+
+  /**
+   * Field-level diff between two revisions of a notice
+   * GET /api/notices/:id/revisions/diff?from=1&to=2
+   */
+  static async diffRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = validateRevisionDiffQuery(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const { from, to } = value;
+
+      const revisions = await NoticeRevision.find({
+        notice: req.params.id,
+        revision: { $in: [from, to] }
+      });
+
+      const fromRevision = revisions.find(revision => revision.revision === from);
+      const toRevision = revisions.find(revision => revision.revision === to);
+
+      if (!fromRevision || !toRevision) {
+        res.status(404).json({
+          success: false,
+          message: `Revision ${!fromRevision ? from : to} not found`
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Notice revision diff generated successfully',
+        data: {
+          from,
+          to,
+          changes: diffObjects(toRevisionSnapshot(fromRevision), toRevisionSnapshot(toRevision), [])
+        }
+      });
+
+    } catch (error) {
+      console.error('Diff notice revisions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while comparing notice revisions'
+      });
+    }
+  }
+
+  /**
+   * Restore a notice to the content of an earlier revision (saved as a new revision)
+   * POST /api/notices/:id/revisions/:rev/restore
+   */
+  static async restoreRevision(req: Request, res: Response): Promise<void> {
+    try {
+      const revisionNumber = NoticeRevisionController.parseRevisionParam(req, res);
+      if (revisionNumber === null) return;
+
+      const { id } = req.params;
+      const adminId = (req as any).admin.adminId;
+
+      const existingNotice = await Notice.findById(id);
+      if (!existingNotice) {
+        res.status(404).json({
+          success: false,
+          message: 'Notice not found'
+        });
+        return;
+      }
+
+      const revision = await NoticeRevision.findOne({ notice: id, revision: revisionNumber });
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          message: 'Revision not found'
+        });
+        return;
+      }
+
+      if (revision.revision === existingNotice.currentRevision) {
+        res.status(400).json({
+          success: false,
+          message: 'Revision is already the current version of this notice'
+        });
+        return;
+      }
+
+      const before = toPlainSnapshot(existingNotice);
+
+      // The revision's category may have been deleted since
+      const categoryExists = revision.category && await NoticeCategory.exists({ _id: revision.category });
+
+      const updateData: any = {
+        title: revision.title,
+        description: revision.description,
+        date: revision.date,
+        category: categoryExists ? revision.category : null,
+        tags: revision.tags,
+        audience: revision.audience,
+        attachments: revision.attachments,
+        updatedBy: adminId,
+        $inc: { currentRevision: 1 }
+      };
+
+      const notice = await Notice.findByIdAndUpdate(
+        id,
+        updateData,
+        { new: true, runValidators: true }
+      );
+
+      if (notice) {
+        await recordNoticeRevision(notice, adminId, 'restore', revision.revision);
+      }
+
+      await recordAudit(req, {
+        action: 'notice.restore',
+        entityType: 'Notice',
+        entityId: id,
+        before,
+        after: notice,
+        metadata: { restoredFrom: revision.revision }
+      });
+
+      await notice?.populate([
+        { path: 'createdBy', select: 'name email' },
+        { path: 'updatedBy', select: 'name email' }
+      ]);
+
+      res.status(200).json({
+        success: true,
+        message: `Notice restored to revision ${revision.revision}`,
+        data: {
+          notice
+        }
+      });
+
+    } catch (error) {
+      console.error('Restore notice revision error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while restoring notice revision'
+      });
+    }
+  }
+}
@@ -0,0 +1,338 @@
+import { Request, Response } from 'express';
+import { Admin } from '../models/Admin';
+import { SecuritySetting } from '../models/SecuritySetting';
+import { validateTwoFactorCode, validateTwoFactorDisable } from '../utils/validators';
+import { hashToken } from '../utils/tokens';
+import { recordAudit } from '../utils/auditLogger';
+import {
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp
+} from '../utils/totp';
+
+/**
+ * Two-factor (TOTP) enrollment controller
+ */
+export class TwoFactorController {
+  /**
+   * Generate fresh recovery codes, returning the plain codes and their hashes
+   */
+  private static createRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = generateRecoveryCodes();
+    const hashes = codes.map(code => hashToken(normalizeRecoveryCode(code)));
+    return { codes, hashes };
+  }
+
+  /**
+   * Get the current admin's 2FA status
+   * GET /api/auth/2fa
+   */
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById((req as any).admin.adminId).select('+twoFactorRecoveryCodes');
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      const settings = await SecuritySetting.getSettings();
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor status retrieved successfully',
+        data: {
+          enabled: admin.twoFactorEnabled,
+          required: settings.requireTwoFactor,
+          recoveryCodesRemaining: admin.twoFactorEnabled ? admin.twoFactorRecoveryCodes.length : 0
+        }
+      });
+
+    } catch (error) {
+      console.error('Get two-factor status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching two-factor status'
+      });
+    }
+  }
+
+  /**
+   * Start 2FA enrollment by generating a new secret
+   * POST /api/auth/2fa/setup
+   */
+  static async setup(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = await Admin.findById((req as any).admin.adminId);
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      if (admin.twoFactorEnabled) {
+        res.status(409).json({
+          success: false,
+          message: 'Two-factor authentication is already enabled'
+        });
+        return;
+      }
+
+      // Kept pending until the admin proves their app generates valid codes
+      const secret = generateTotpSecret();
+      admin.twoFactorPendingSecret = encryptTotpSecret(secret);
+      await admin.save();
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        data: {
+          secret,
+          otpauthUri: buildOtpauthUri(secret, admin.email)
+        }
+      });
+
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error during two-factor setup'
+      });
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code and enable 2FA
+   * POST /api/auth/2fa/confirm
+   */
+  static async confirm(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateTwoFactorCode(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const admin = await Admin.findById((req as any).admin.adminId).select('+twoFactorPendingSecret');
+      if (!admin) {
+        res.status(404).json({
+          success: false,
+          message: 'Admin not found'
+        });
+        return;
+      }
+
+      if (admin.twoFactorEnabled) {
+        res.status(409).json({
+          success: false,
+          message: 'Two-factor authentication is already enabled'
+        });
+        return;
+      }
+
+      if (!admin.twoFactorPendingSecret) {
+        res.status(400).json({
+          success: false,
+          message: 'Start two-factor setup before confirming'
+        });
+        return;
+      }
+
+      const step = verifyTotp(decryptTotpSecret(admin.twoFactorPendingSecret), value.code);
+      if (step === null) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid two-factor code'
+        });
+        return;
+      }
+
+      const { codes, hashes } = TwoFactorController.createRecoveryCodes();
+
+      admin.twoFactorSecret = admin.twoFactorPendingSecret;
+      admin.twoFactorPendingSecret = undefined;
+      admin.twoFactorRecoveryCodes = hashes;
+      admin.twoFactorLastUsedStep = step;
+      admin.twoFactorEnabled = true;
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'auth.2fa_enable',
+        entityType: 'Auth',
+        entityId: admin.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they are shown only once.',
+        data: {
+          recoveryCodes: codes
+        }
+      });
+
+    } catch (error) {
+      console.error('Two-factor confirm error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while confirming two-factor setup'
+      });
+    }
+  }
+
+  /**
+   * Regenerate recovery codes (invalidates the old ones)
+   * POST /api/auth/2fa/recovery-codes
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateTwoFactorCode(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const admin = await Admin.findById((req as any).admin.adminId)
+        .select('+twoFactorSecret +twoFactorLastUsedStep');
+      if (!admin || !admin.twoFactorEnabled || !admin.twoFactorSecret) {
+        res.status(400).json({
+          success: false,
+          message: 'Two-factor authentication is not enabled'
+        });
+        return;
+      }
+
+      const step = verifyTotp(
+        decryptTotpSecret(admin.twoFactorSecret),
+        value.code,
+        admin.twoFactorLastUsedStep
+      );
+      if (step === null || !(await admin.consumeTotpStep(step))) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid two-factor code'
+        });
+        return;
+      }
+
+      const { codes, hashes } = TwoFactorController.createRecoveryCodes();
+
+      admin.twoFactorRecoveryCodes = hashes;
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'auth.2fa_recovery_codes_regenerate',
+        entityType: 'Auth',
+        entityId: admin.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated. Previous codes no longer work.',
+        data: {
+          recoveryCodes: codes
+        }
+      });
+
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while regenerating recovery codes'
+      });
+    }
+  }
+
+  /**
+   * Disable 2FA for the current admin
+   * POST /api/auth/2fa/disable
+   */
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = validateTwoFactorDisable(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+        return;
+      }
+
+      const settings = await SecuritySetting.getSettings();
+      if (settings.requireTwoFactor) {
+        res.status(403).json({
+          success: false,
+          message: 'Two-factor authentication is required for all admins and cannot be disabled'
+        });
+        return;
+      }
+
+      const admin = await Admin.findById((req as any).admin.adminId)
+        .select('+password +twoFactorSecret +twoFactorLastUsedStep');
+      if (!admin || !admin.twoFactorEnabled || !admin.twoFactorSecret) {
+        res.status(400).json({
+          success: false,
+          message: 'Two-factor authentication is not enabled'
+        });
+        return;
+      }
+
+      const isPasswordValid = await admin.comparePassword(value.password);
+      const step = verifyTotp(
+        decryptTotpSecret(admin.twoFactorSecret),
+        value.code,
+        admin.twoFactorLastUsedStep
+      );
+      if (!isPasswordValid || step === null || !(await admin.consumeTotpStep(step))) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid password or two-factor code'
+        });
+        return;
+      }
+
+      admin.twoFactorEnabled = false;
+      admin.twoFactorSecret = undefined;
+      admin.twoFactorRecoveryCodes = [];
+      admin.twoFactorLastUsedStep = -1;
+      await admin.save();
+
+      await recordAudit(req, {
+        action: 'auth.2fa_disable',
+        entityType: 'Auth',
+        entityId: admin.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error while disabling two-factor authentication'
+      });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { config } from '../config/environment';
+import { purgeExpiredTrash } from './trashPurge';
+import { runNoticeScheduler } from './noticeScheduler';
+import { runStorageReconcile } from './storageReconcile';
+
+/**
+ * A task that runs on a fixed interval while the server is up
+ */
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const jobs: ScheduledJob[] = [
+  {
+    name: 'trash purge',
+    intervalMs: config.TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000,
+    run: purgeExpiredTrash
+  },
+  {
+    name: 'notice scheduler',
+    intervalMs: config.NOTICE_SCHEDULER_INTERVAL_MINUTES * 60 * 1000,
+    run: runNoticeScheduler
+  },
+  {
+    name: 'storage reconciliation',
+    intervalMs: config.STORAGE_RECONCILE_INTERVAL_HOURS * 60 * 60 * 1000,
+    run: runStorageReconcile
+  }
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Run a job once, logging (not throwing) failures
+ */
+const runJob = async (job: ScheduledJob): Promise<void> => {
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`❌ Job "${job.name}" failed:`, error);
+  }
+};
+
+/**
+ * Start all background jobs (call once the database is connected)
+ */
+export const startJobs = (): void => {
+  for (const job of jobs) {
+    void runJob(job);
+    const timer = setInterval(() => void runJob(job), job.intervalMs);
+    timer.unref(); // Don't keep the process alive just for jobs
+    timers.push(timer);
+  }
+};
+
+/**
+ * Stop all background jobs
+ */
+export const stopJobs = (): void => {
+  timers.splice(0).forEach(timer => clearInterval(timer));
+};
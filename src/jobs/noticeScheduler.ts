@@ -0,0 +1,69 @@
+import { Notice, getPublicNoticeFilter } from '../models/Notice';
+import { recordAudit } from '../utils/auditLogger';
+
+/**
+ * Record publish and expiry transitions of scheduled notices so the admin view
+ * shows when each notice actually went live or expired, and lift expired pins
+ */
+export const runNoticeScheduler = async (
+  now: Date = new Date()
+): Promise<{ published: number; expired: number; unpinned: number }> => {
+  const result = { published: 0, expired: 0, unpinned: 0 };
+
+  // Notices whose publish window has opened since the last run
+  const dueToPublish = await Notice.find({ ...getPublicNoticeFilter(now), publishedAt: null });
+  for (const notice of dueToPublish) {
+    const publishedAt = notice.publishAt ?? notice.createdAt;
+    await Notice.updateOne({ _id: notice._id }, { publishedAt });
+
+    // Notices without a publish time are only being backfilled
+    if (notice.publishAt) {
+      await recordAudit(null, {
+        action: 'notice.scheduled_publish',
+        entityType: 'Notice',
+        entityId: notice.id,
+        metadata: { publishAt: notice.publishAt },
+        actor: null
+      });
+      result.published++;
+    }
+  }
+
+  // Active notices whose expiry time has passed since the last run
+  const dueToExpire = await Notice.find({ isActive: true, expiresAt: { $lte: now }, expiredAt: null });
+  for (const notice of dueToExpire) {
+    await Notice.updateOne({ _id: notice._id }, { expiredAt: notice.expiresAt });
+
+    await recordAudit(null, {
+      action: 'notice.expire',
+      entityType: 'Notice',
+      entityId: notice.id,
+      metadata: { expiresAt: notice.expiresAt },
+      actor: null
+    });
+    result.expired++;
+  }
+
+  // Pinned notices whose pin has run out
+  const dueToUnpin = await Notice.find({ pinned: true, pinnedUntil: { $lte: now } });
+  for (const notice of dueToUnpin) {
+    await Notice.updateOne({ _id: notice._id }, { pinned: false, pinnedUntil: null });
+
+    await recordAudit(null, {
+      action: 'notice.pin_expire',
+      entityType: 'Notice',
+      entityId: notice.id,
+      metadata: { pinnedUntil: notice.pinnedUntil },
+      actor: null
+    });
+    result.unpinned++;
+  }
+
+  if (result.published || result.expired || result.unpinned) {
+    console.log(
+      `📅 Notice scheduler published ${result.published}, expired ${result.expired} and unpinned ${result.unpinned} notice(s)`
+    );
+  }
+
+  return result;
+};
@@ -0,0 +1,211 @@
+import { Notice } from '../models/Notice';
+import { NoticeRevision } from '../models/NoticeRevision';
+import Gallery from '../models/gallery';
+import { config } from '../config/environment';
+import { recordAudit } from '../utils/auditLogger';
+import { STORAGE_FOLDERS, StoredAsset, getStorage } from '../utils/storage';
+import { getGalleryImagePublicIds } from '../utils/galleryImages';
+
+/**
+ * A database reference to a file that is missing from storage
+ */
+export interface DanglingReference {
+  entityType: 'Notice' | 'NoticeRevision' | 'Gallery';
+  entityId: string;
+  publicId: string;
+}
+
+/**
+ * Outcome of a reconciliation run
+ */
+export interface ReconcileReport {
+  dryRun: boolean;
+  checkedAt: Date;
+  storedFiles: number;
+  referencedFiles: number;
+  orphans: StoredAsset[]; // Stored but referenced by nothing
+  dangling: DanglingReference[]; // Referenced but missing from storage
+  skippedRecent: number; // Unreferenced files inside the grace period (uploads may be in flight)
+  skippedRecentReferences: number; // Missing files referenced by documents changed inside the grace period
+  skippedForeign: number; // References to files kept by another storage provider
+  deletedOrphans: number;
+  removedReferences: number;
+}
+
+/**
+ * Compare the files in storage with the notices, notice revisions and gallery
+ * images that reference them. Unreferenced files older than the grace period are
+ * orphans; references to missing files are dangling.
+ *
+ * References are loaded before storage is listed, so a file uploaded and saved
+ * while the job runs shows up as a recent unreferenced file rather than a dangling
+ * reference. Documents changed inside the grace period are not reported either.
+ *
+ * With `fix`, orphans are deleted, dangling attachments are removed from their
+ * notices and revisions, and gallery images whose file is gone are moved to the trash.
+ */
+export const reconcileStorage = async (
+  { fix = false, now = new Date() }: { fix?: boolean; now?: Date } = {}
+): Promise<ReconcileReport> => {
+  const storage = getStorage();
+  const graceCutoff = new Date(now.getTime() - config.STORAGE_RECONCILE_GRACE_MINUTES * 60 * 1000);
+
+  // Trashed notices and images still own their files until they are purged
+  const [notices, revisions, images] = await Promise.all([
+    Notice.find().select('attachments updatedAt').setOptions({ withDeleted: true }),
+    NoticeRevision.find().select('notice attachments createdAt'),
+    Gallery.find().select('image deletedAt updatedAt').setOptions({ withDeleted: true })
+  ]);
+
+  const stored: StoredAsset[] = [];
+  for (const folder of Object.values(STORAGE_FOLDERS)) {
+    stored.push(...await storage.list(folder));
+  }
+  const storedIds = new Set(stored.map(asset => asset.publicId));
+
+  const referencedIds = new Set<string>();
+  const dangling: DanglingReference[] = [];
+  let skippedForeign = 0;
+  let skippedRecentReferences = 0;
+
+  const checkReference = (
+    entityType: DanglingReference['entityType'],
+    entityId: string,
+    changedAt: Date,
+    publicId: string,
+    url: string
+  ) => {
+    if (!storage.ownsUrl(url)) {
+      skippedForeign++;
+      return;
+    }
+    referencedIds.add(publicId);
+    if (storedIds.has(publicId)) {
+      return;
+    }
+    if (changedAt > graceCutoff) {
+      skippedRecentReferences++;
+      return;
+    }
+    dangling.push({ entityType, entityId, publicId });
+  };
+
+  for (const notice of notices) {
+    for (const attachment of notice.attachments) {
+      checkReference('Notice', notice.id, notice.updatedAt, attachment.publicId, attachment.url);
+    }
+  }
+  for (const revision of revisions) {
+    for (const attachment of revision.attachments) {
+      checkReference('NoticeRevision', revision.id, revision.createdAt, attachment.publicId, attachment.url);
+    }
+  }
+  for (const image of images) {
+    if (image.image) {
+      for (const publicId of getGalleryImagePublicIds(image.image)) {
+        checkReference('Gallery', image.id, image.updatedAt, publicId, image.image.url);
+      }
+    }
+  }
+
+  const unreferenced = stored.filter(asset => !referencedIds.has(asset.publicId));
+  const orphans = unreferenced.filter(asset => asset.createdAt <= graceCutoff);
+
+  const report: ReconcileReport = {
+    dryRun: !fix,
+    checkedAt: now,
+    storedFiles: stored.length,
+    referencedFiles: referencedIds.size,
+    orphans,
+    dangling,
+    skippedRecent: unreferenced.length - orphans.length,
+    skippedRecentReferences,
+    skippedForeign,
+    deletedOrphans: 0,
+    removedReferences: 0
+  };
+
+  if (!fix) {
+    return report;
+  }
+
+  for (const asset of orphans) {
+    if (await storage.delete(asset.publicId, asset.resourceType)) {
+      report.deletedOrphans++;
+    }
+  }
+
+  for (const reference of dangling) {
+    switch (reference.entityType) {
+      case 'Notice':
+        await Notice.updateOne(
+          { _id: reference.entityId },
+          { $pull: { attachments: { publicId: reference.publicId } } }
+        ).setOptions({ withDeleted: true });
+
+        await recordAudit(null, {
+          action: 'notice.attachment_missing',
+          entityType: 'Notice',
+          entityId: reference.entityId,
+          metadata: { publicId: reference.publicId },
+          actor: null
+        });
+        break;
+
+      case 'NoticeRevision':
+        await NoticeRevision.updateOne(
+          { _id: reference.entityId },
+          { $pull: { attachments: { publicId: reference.publicId } } }
+        );
+        break;
+
+      case 'Gallery': {
+        const image = images.find(candidate => candidate.id === reference.entityId);
+        if (image && !image.get('deletedAt')) {
+          await Gallery.updateOne({ _id: reference.entityId }, { deletedAt: now, deletedBy: null });
+          image.set({ deletedAt: now }); // Other missing renditions of this image need no second trash
+
+          await recordAudit(null, {
+            action: 'gallery.trash',
+            entityType: 'Gallery',
+            entityId: reference.entityId,
+            metadata: { reason: 'file missing from storage', publicId: reference.publicId },
+            actor: null
+          });
+        }
+        break;
+      }
+    }
+    report.removedReferences++;
+  }
+
+  await recordAudit(null, {
+    action: 'storage.reconcile',
+    entityType: 'Storage',
+    metadata: {
+      deletedOrphans: orphans.map(asset => asset.publicId),
+      removedReferences: dangling.map(reference => `${reference.entityType}:${reference.entityId}:${reference.publicId}`)
+    },
+    actor: null
+  });
+
+  return report;
+};
+
+/**
+ * Scheduled reconciliation: reports drift, and only fixes it when
+ * STORAGE_RECONCILE_AUTO_FIX is enabled
+ */
+export const runStorageReconcile = async (): Promise<ReconcileReport> => {
+  const report = await reconcileStorage({ fix: config.STORAGE_RECONCILE_AUTO_FIX });
+
+  if (report.orphans.length || report.dangling.length) {
+    console.warn(
+      `🧾 Storage reconciliation${report.dryRun ? ' (dry run)' : ''}: ` +
+      `${report.orphans.length} orphaned file(s), ${report.dangling.length} dangling reference(s)` +
+      (report.dryRun ? '' : `; deleted ${report.deletedOrphans}, removed ${report.removedReferences}`)
+    );
+  }
+
+  return report;
+};
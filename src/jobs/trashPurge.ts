@@ -0,0 +1,55 @@
+import { Notice } from '../models/Notice';
+import Gallery from '../models/gallery';
+import { Album } from '../models/Album';
+import { config } from '../config/environment';
+import { deleteStoredFiles, getGalleryImagePublicIds } from '../utils/galleryImages';
+import { recordAudit } from '../utils/auditLogger';
+import { deleteNoticeRevisions } from '../utils/noticeRevisions';
+import { deleteNoticeAttachmentFiles } from '../utils/noticeAttachments';
+
+/**
+ * Permanently remove trashed notices and gallery images older than
+ * TRASH_RETENTION_DAYS, together with their stored files
+ */
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<{ notices: number; gallery: number }> => {
+  const cutoff = new Date(now.getTime() - config.TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = { notices: 0, gallery: 0 };
+
+  const notices = await Notice.find({ deletedAt: { $ne: null, $lte: cutoff } });
+  for (const notice of notices) {
+    await deleteNoticeAttachmentFiles(notice.attachments);
+    await deleteNoticeRevisions(notice);
+    await Notice.deleteOne({ _id: notice._id });
+
+    await recordAudit(null, {
+      action: 'notice.purge',
+      entityType: 'Notice',
+      entityId: notice.id,
+      before: notice,
+      actor: null
+    });
+    result.notices++;
+  }
+
+  const images = await Gallery.find({ deletedAt: { $ne: null, $lte: cutoff } });
+  for (const image of images) {
+    await deleteStoredFiles(getGalleryImagePublicIds(image.image));
+    await Gallery.deleteOne({ _id: image._id });
+    await Album.updateMany({ coverImage: image._id }, { coverImage: null });
+
+    await recordAudit(null, {
+      action: 'gallery.purge',
+      entityType: 'Gallery',
+      entityId: image.id,
+      before: image,
+      actor: null
+    });
+    result.gallery++;
+  }
+
+  if (result.notices || result.gallery) {
+    console.log(`🗑️ Purged ${result.notices} notice(s) and ${result.gallery} gallery image(s) from the trash`);
+  }
+
+  return result;
+};
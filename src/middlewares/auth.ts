@@ -1,18 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import * as jwt from 'jsonwebtoken';
 import { Admin } from '../models/Admin';
+import { Session } from '../models/Session';
+import { SecuritySetting } from '../models/SecuritySetting';
 import { config } from '../config/environment';
+import { AccessTokenPayload } from '../utils/tokens';
 
-interface JwtPayload {
-  adminId: string;
-  email: string;
-  role: string;
+interface AuthenticateOptions {
+  // Let admins who still have to enroll in required 2FA through
+  allowPendingTwoFactorSetup: boolean;
 }
 
 /**
- * Authentication middleware to protect routes
+ * Build the authentication middleware
  */
-export const authenticateAdmin = async (
+const authenticate = (options: AuthenticateOptions) => async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -30,7 +32,17 @@ export const authenticateAdmin = async (
     }
 
     // Verify token
-    const decoded = jwt.verify(token, config.JWT_SECRET) as JwtPayload;
+    const decoded = jwt.verify(token, config.JWT_SECRET) as AccessTokenPayload & jwt.JwtPayload;
+
+    // Check that the token's session has not been revoked
+    const session = decoded.sessionId ? await Session.findById(decoded.sessionId) : null;
+    if (!session || !session.isValid() || session.admin.toString() !== decoded.adminId) {
+      res.status(401).json({
+        success: false,
+        message: 'Access denied. Session has been revoked.'
+      });
+      return;
+    }
 
     // Check if admin still exists in database
     const admin = await Admin.findById(decoded.adminId);
@@ -51,12 +63,35 @@ export const authenticateAdmin = async (
       return;
     }
 
+    // Reject tokens issued before the last password change
+    if (decoded.iat && admin.changedPasswordAfter(decoded.iat)) {
+      res.status(401).json({
+        success: false,
+        message: 'Access denied. Password was changed, please sign in again.'
+      });
+      return;
+    }
+
+    // Enforce the global 2FA requirement for admins who haven't enrolled yet
+    if (!admin.twoFactorEnabled && !options.allowPendingTwoFactorSetup) {
+      const settings = await SecuritySetting.getSettings();
+      if (settings.requireTwoFactor) {
+        res.status(403).json({
+          success: false,
+          message: 'Two-factor authentication must be set up before continuing.',
+          code: 'TWO_FACTOR_SETUP_REQUIRED'
+        });
+        return;
+      }
+    }
+
     // Attach admin info to request object
     (req as any).admin = {
       adminId: admin._id,
       email: admin.email,
       name: admin.name,
-      role: admin.role
+      role: admin.role,
+      sessionId: session._id
     };
 
     next();
@@ -64,18 +99,19 @@ export const authenticateAdmin = async (
   } catch (error) {
     console.error('Authentication error:', error);
 
-    if (error instanceof jwt.JsonWebTokenError) {
+    // TokenExpiredError extends JsonWebTokenError, so it must be checked first
+    if (error instanceof jwt.TokenExpiredError) {
       res.status(401).json({
         success: false,
-        message: 'Access denied. Invalid token.'
+        message: 'Access denied. Token has expired.'
       });
       return;
     }
 
-    if (error instanceof jwt.TokenExpiredError) {
+    if (error instanceof jwt.JsonWebTokenError) {
       res.status(401).json({
         success: false,
-        message: 'Access denied. Token has expired.'
+        message: 'Access denied. Invalid token.'
       });
       return;
     }
@@ -87,6 +123,17 @@ export const authenticateAdmin = async (
   }
 };
 
+/**
+ * Authentication middleware to protect routes
+ */
+export const authenticateAdmin = authenticate({ allowPendingTwoFactorSetup: false });
+
+/**
+ * Authentication middleware for routes an admin must reach to set up
+ * required two-factor authentication (profile, 2FA enrollment, sign out)
+ */
+export const authenticateAdminAllowingTwoFactorSetup = authenticate({ allowPendingTwoFactorSetup: true });
+
 /**
  * Role-based authorization middleware
  */
@@ -1,40 +1,14 @@
 import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
 import { Request } from 'express';
 import { config } from '../config/environment';
 import { AppError } from './errorHandler';
+import { inspectUploadedFile } from '../utils/fileInspection';
 
 /**
- * Ensure uploads directory exists
+ * Configure multer for temporary storage before handing files to the storage provider
+ * Files will be stored in memory temporarily
  */
-const ensureUploadsDir = (): void => {
-  const uploadsDir = path.join(process.cwd(), 'uploads');
-  if (!fs.existsSync(uploadsDir)) {
-    fs.mkdirSync(uploadsDir, { recursive: true });
-    console.log('📁 Created uploads directory');
-  }
-};
-
-/**
- * Configure multer storage
- */
-const storage = multer.diskStorage({
-  destination: (req: Request, file: Express.Multer.File, cb) => {
-    ensureUploadsDir();
-    cb(null, 'uploads/');
-  },
-  filename: (req: Request, file: Express.Multer.File, cb) => {
-    // Generate unique filename with timestamp and random string
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
-    const extension = path.extname(file.originalname);
-    const nameWithoutExt = path.basename(file.originalname, extension);
-    const sanitizedName = nameWithoutExt.replace(/[^a-zA-Z0-9]/g, '_');
-    
-    const filename = `${sanitizedName}-${uniqueSuffix}${extension}`;
-    cb(null, filename);
-  }
-});
+const storage = multer.memoryStorage();
 
 /**
  * File filter function to validate file types
@@ -53,47 +27,105 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
 };
 
 /**
- * Configure multer with options
+ * Field name, file count and file size accepted by an upload route, used to explain multer errors
+ */
+interface UploadLimits {
+  field: string;
+  files: number;
+  fileSize: number;
+}
+
+// Gallery originals are downscaled after upload, so they may exceed MAX_FILE_SIZE
+const singleUploadLimits: UploadLimits = { field: 'attachment', files: 1, fileSize: config.GALLERY_MAX_UPLOAD_SIZE };
+const noticeUploadLimits: UploadLimits = { field: 'attachments', files: config.NOTICE_MAX_ATTACHMENTS, fileSize: config.MAX_FILE_SIZE };
+const galleryBulkUploadLimits: UploadLimits = { field: 'images', files: config.GALLERY_BULK_MAX_FILES, fileSize: config.GALLERY_MAX_UPLOAD_SIZE };
+
+/**
+ * Configure multer with options for single file uploads (gallery images)
  */
 const upload = multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: config.MAX_FILE_SIZE, // Max file size in bytes
-    files: 1 // Maximum number of files
+    fileSize: singleUploadLimits.fileSize, // Max file size in bytes
+    files: singleUploadLimits.files // Maximum number of files
   }
 });
 
 /**
  * Middleware for single file upload with field name 'attachment'
  */
-export const uploadSingle = upload.single('attachment');
+export const uploadSingle = upload.single(singleUploadLimits.field);
 
 /**
- * Handle multer errors
+ * Separate multer instance for notices, which accept several files
  */
-export const handleMulterError = (error: any, req: Request, res: any, next: any) => {
+const noticeUpload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: noticeUploadLimits.fileSize, // Max file size in bytes
+    files: noticeUploadLimits.files // Maximum number of files per request
+  }
+});
+
+/**
+ * Middleware for notice attachments uploaded with field name 'attachments'
+ */
+export const uploadNoticeAttachments = noticeUpload.array(noticeUploadLimits.field, noticeUploadLimits.files);
+
+/**
+ * Separate multer instance for bulk gallery uploads. There is no file filter: a
+ * disallowed file is reported by the controller instead of failing the whole batch
+ */
+const galleryBulkUpload = multer({
+  storage,
+  limits: {
+    fileSize: galleryBulkUploadLimits.fileSize, // Max file size in bytes
+    files: galleryBulkUploadLimits.files // Maximum number of files per request
+  }
+});
+
+/**
+ * Middleware for bulk gallery images uploaded with field name 'images'
+ */
+export const uploadGalleryImages = galleryBulkUpload.array(galleryBulkUploadLimits.field, galleryBulkUploadLimits.files);
+
+/**
+ * Handle multer errors for file uploads, describing the limits of the route
+ */
+export const handleMulterError = (
+  error: any,
+  req: Request,
+  res: any,
+  next: any,
+  limits: UploadLimits = singleUploadLimits
+) => {
   if (error instanceof multer.MulterError) {
     switch (error.code) {
       case 'LIMIT_FILE_SIZE':
         return res.status(400).json({
           success: false,
           message: 'File too large',
-          errors: [`File size must be less than ${(config.MAX_FILE_SIZE / (1024 * 1024)).toFixed(2)}MB`]
+          errors: [`File size must be less than ${(limits.fileSize / (1024 * 1024)).toFixed(2)}MB`]
         });
       
       case 'LIMIT_FILE_COUNT':
         return res.status(400).json({
           success: false,
           message: 'Too many files',
-          errors: ['Only one file is allowed']
+          errors: [
+            limits.files === 1
+              ? 'Only one file is allowed'
+              : `At most ${limits.files} files can be uploaded at once`
+          ]
         });
       
       case 'LIMIT_UNEXPECTED_FILE':
         return res.status(400).json({
           success: false,
           message: 'Unexpected file field',
-          errors: ['File must be uploaded with field name "attachment"']
+          errors: [`${limits.files === 1 ? 'File' : 'Files'} must be uploaded with field name "${limits.field}"`]
         });
       
       default:
@@ -109,14 +141,68 @@ export const handleMulterError = (error: any, req: Request, res: any, next: any)
 };
 
 /**
- * Optional file upload middleware - allows requests without files
+ * Verify the content of every uploaded file (type sniffing, PDF scripts, virus scan,
+ * image metadata stripping) before it reaches a controller
+ */
+const inspectUploads = async (req: Request, res: any, next: any) => {
+  const files = req.file ? [req.file] : ((req.files as Express.Multer.File[] | undefined) ?? []);
+
+  try {
+    for (const file of files) {
+      await inspectUploadedFile(file);
+    }
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.statusCode === 400 ? 'File rejected' : 'File upload error',
+        errors: [error.message]
+      });
+    }
+    return next(error);
+  }
+
+  next();
+};
+
+/**
+ * Optional notice attachments upload middleware - allows requests without files
+ */
+export const optionalNoticeAttachmentsUpload = (req: Request, res: any, next: any) => {
+  uploadNoticeAttachments(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_COUNT') {
+        return res.status(400).json({
+          success: false,
+          message: 'Too many files',
+          errors: [`A notice can have at most ${config.NOTICE_MAX_ATTACHMENTS} attachments`]
+        });
+      }
+      if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+        return res.status(400).json({
+          success: false,
+          message: 'Unexpected file field',
+          errors: ['Files must be uploaded with field name "attachments"']
+        });
+      }
+    }
+    if (error) {
+      return handleMulterError(error, req, res, next, noticeUploadLimits);
+    }
+    void inspectUploads(req, res, next);
+  });
+};
+
+/**
+ * Optional file upload middleware - allows requests without a file
  */
 export const optionalFileUpload = (req: Request, res: any, next: any) => {
   uploadSingle(req, res, (error) => {
     if (error) {
       return handleMulterError(error, req, res, next);
     }
-    next();
+
+    void inspectUploads(req, res, next);
   });
 };
 
@@ -137,6 +223,45 @@ export const requiredFileUpload = (req: Request, res: any, next: any) => {
       });
     }
     
-    next();
+    void inspectUploads(req, res, next);
   });
 };
+
+/**
+ * Bulk gallery upload middleware - requires at least one image. Files are not
+ * inspected here: the controller inspects each one so a rejected file only fails
+ * its own entry in the report
+ */
+export const requiredGalleryImagesUpload = (req: Request, res: any, next: any) => {
+  uploadGalleryImages(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_COUNT') {
+        return res.status(400).json({
+          success: false,
+          message: 'Too many files',
+          errors: [`At most ${config.GALLERY_BULK_MAX_FILES} images can be uploaded at once`]
+        });
+      }
+      if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+        return res.status(400).json({
+          success: false,
+          message: 'Unexpected file field',
+          errors: ['Files must be uploaded with field name "images"']
+        });
+      }
+    }
+    if (error) {
+      return handleMulterError(error, req, res, next, galleryBulkUploadLimits);
+    }
+
+    if (!(req.files as Express.Multer.File[] | undefined)?.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'File required',
+        errors: ['Please upload at least one image']
+      });
+    }
+
+    next();
+  });
+};
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/environment';
+
+/**
+ * Rate limiter options
+ */
+interface RateLimiterOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+  keyGenerator?: (req: Request) => string;
+  skipSuccessfulRequests?: boolean; // Only count responses with status >= 400
+}
+
+interface HitRecord {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * In-memory fixed-window hit counter
+ */
+class MemoryStore {
+  private hits = new Map<string, HitRecord>();
+
+  constructor(windowMs: number) {
+    // Periodically drop expired windows so the map doesn't grow forever
+    const timer = setInterval(() => this.cleanup(), windowMs);
+    timer.unref();
+  }
+
+  increment(key: string, windowMs: number): HitRecord {
+    const now = Date.now();
+    const record = this.hits.get(key);
+
+    if (!record || record.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.hits.set(key, fresh);
+      return fresh;
+    }
+
+    record.count += 1;
+    return record;
+  }
+
+  decrement(key: string): void {
+    const record = this.hits.get(key);
+    if (record && record.count > 0) {
+      record.count -= 1;
+    }
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, record] of this.hits) {
+      if (record.resetAt <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Create a rate limiting middleware
+ */
+export const createRateLimiter = (options: RateLimiterOptions) => {
+  const {
+    windowMs,
+    max,
+    message = 'Too many requests, please try again later',
+    keyGenerator = (req: Request) => req.ip || 'unknown',
+    skipSuccessfulRequests = false
+  } = options;
+
+  const store = new MemoryStore(windowMs);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = keyGenerator(req);
+    const record = store.increment(key, windowMs);
+    const retryAfterSeconds = Math.max(Math.ceil((record.resetAt - Date.now()) / 1000), 1);
+
+    res.setHeader('RateLimit-Limit', max);
+    res.setHeader('RateLimit-Remaining', Math.max(max - record.count, 0));
+    res.setHeader('RateLimit-Reset', retryAfterSeconds);
+
+    if (record.count > max) {
+      res.setHeader('Retry-After', retryAfterSeconds);
+      res.status(429).json({
+        success: false,
+        message,
+        code: 'RATE_LIMITED',
+        retryAfter: retryAfterSeconds
+      });
+      return;
+    }
+
+    if (skipSuccessfulRequests) {
+      res.on('finish', () => {
+        if (res.statusCode < 400) {
+          store.decrement(key);
+        }
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Limits failed sign-in attempts per IP address
+ */
+export const signInRateLimiter = createRateLimiter({
+  windowMs: config.LOGIN_IP_WINDOW_MINUTES * 60 * 1000,
+  max: config.LOGIN_IP_MAX_ATTEMPTS,
+  message: 'Too many failed sign-in attempts from this IP, please try again later',
+  skipSuccessfulRequests: true
+});
+
+/**
+ * Limits password reset requests per IP address
+ */
+export const passwordResetRateLimiter = createRateLimiter({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: 'Too many password reset requests, please try again later'
+});
+
+/**
+ * Limits file uploads per admin (falls back to IP for unauthenticated requests)
+ */
+export const uploadRateLimiter = createRateLimiter({
+  windowMs: config.UPLOAD_RATE_LIMIT_WINDOW_MINUTES * 60 * 1000,
+  max: config.UPLOAD_RATE_LIMIT_MAX,
+  message: 'Too many uploads, please try again later',
+  keyGenerator: (req: Request) => (req as any).admin?.adminId?.toString() || req.ip || 'unknown'
+});
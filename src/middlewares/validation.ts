@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { validateObjectId } from '../utils/validators';
+
+/**
+ * Reject requests whose route parameter is not a valid MongoDB ObjectId
+ */
+export const validateIdParam = (paramName: string = 'id') => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error } = validateObjectId(req.params[paramName] as string);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,29 @@
+import mongoose, { Types } from 'mongoose';
+import { DataMigration } from './index';
+
+/**
+ * Convert the single `attachment` field of notices and their revisions into
+ * the `attachments` array, giving each attachment its own ID and an empty caption
+ */
+const noticeAttachmentsArray: DataMigration = {
+  name: '001-notice-attachments-array',
+  up: async () => {
+    for (const collectionName of ['notices', 'noticerevisions']) {
+      const collection = mongoose.connection.collection(collectionName);
+      const cursor = collection.find({ attachment: { $exists: true } }, { projection: { attachment: 1 } });
+
+      for await (const doc of cursor) {
+        const attachments = doc.attachment
+          ? [{ ...doc.attachment, _id: new Types.ObjectId(), caption: '' }]
+          : [];
+
+        await collection.updateOne(
+          { _id: doc._id },
+          { $set: { attachments }, $unset: { attachment: '' } }
+        );
+      }
+    }
+  }
+};
+
+export default noticeAttachmentsArray;
@@ -0,0 +1,42 @@
+import { Types } from 'mongoose';
+import { Album } from '../models/Album';
+import Gallery from '../models/gallery';
+import { appendImagesToAlbum } from '../utils/galleryAlbums';
+import { DataMigration } from './index';
+
+/**
+ * Group existing gallery images into one album per category, oldest image first,
+ * with the album's event date set to its most recent image
+ */
+const galleryAlbumsFromCategories: DataMigration = {
+  name: '002-gallery-albums-from-categories',
+  up: async () => {
+    const images = await Gallery.find({ album: null })
+      .sort({ date: 1 })
+      .select('category date uploadedBy')
+      .setOptions({ withDeleted: true })
+      .lean(); // Read categories raw: before migration 003 they are still names
+
+    const byCategory = new Map<string, typeof images>();
+    for (const image of images) {
+      const category = String(image.category);
+      byCategory.set(category, [...(byCategory.get(category) ?? []), image]);
+    }
+
+    for (const [category, categoryImages] of byCategory) {
+      const newest = categoryImages[categoryImages.length - 1]!;
+      const album = await Album.create({
+        title: category,
+        slug: await Album.generateSlug(category),
+        eventDate: newest.date,
+        createdBy: newest.uploadedBy,
+        updatedBy: newest.uploadedBy
+      });
+
+      await appendImagesToAlbum(album.id, categoryImages.map(image => image._id as Types.ObjectId));
+      console.log(`📁 Created album "${category}" with ${categoryImages.length} image(s)`);
+    }
+  }
+};
+
+export default galleryAlbumsFromCategories;
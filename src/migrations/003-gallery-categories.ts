@@ -0,0 +1,37 @@
+import Gallery from '../models/gallery';
+import { GalleryCategory } from '../models/GalleryCategory';
+import { slugify } from '../utils/slugify';
+import { DataMigration } from './index';
+
+/**
+ * The categories that used to be hardcoded in the gallery schema
+ */
+const DEFAULT_CATEGORIES = ['College Events', 'Workshops & Seminars', 'Campus Tour', 'Technical Competitions', 'Sports & Cultural'];
+
+/**
+ * Seed gallery categories (the former defaults plus any other name found on
+ * existing images) and replace each image's category name with its ID
+ */
+const galleryCategories: DataMigration = {
+  name: '003-gallery-categories',
+  up: async () => {
+    // Native collection: the schema now expects IDs, so legacy names can't go through Mongoose casting
+    const legacyNames: string[] = await Gallery.collection.distinct('category', { category: { $type: 'string' } });
+    const names = [...DEFAULT_CATEGORIES, ...legacyNames.filter(name => !DEFAULT_CATEGORIES.includes(name))];
+
+    for (const [index, name] of names.entries()) {
+      const category = await GalleryCategory.findOne({ slug: slugify(name) })
+        ?? await GalleryCategory.create({ name, displayOrder: index });
+
+      const { modifiedCount } = await Gallery.collection.updateMany(
+        { category: name },
+        { $set: { category: category._id } }
+      );
+      if (modifiedCount > 0) {
+        console.log(`🏷️  Moved ${modifiedCount} image(s) to category "${category.name}"`);
+      }
+    }
+  }
+};
+
+export default galleryCategories;
@@ -0,0 +1,40 @@
+import { Migration } from '../models/Migration';
+import noticeAttachmentsArray from './001-notice-attachments-array';
+import galleryAlbumsFromCategories from './002-gallery-albums-from-categories';
+import galleryCategories from './003-gallery-categories';
+
+/**
+ * A one-off data change, applied once per database
+ */
+export interface DataMigration {
+  name: string;
+  up: () => Promise<void>;
+}
+
+/**
+ * All migrations, in the order they must run
+ */
+const migrations: DataMigration[] = [
+  noticeAttachmentsArray,
+  galleryAlbumsFromCategories,
+  galleryCategories
+];
+
+/**
+ * Apply pending migrations in order (call once the database is connected)
+ */
+export const runMigrations = async (): Promise<void> => {
+  const applied = new Set(
+    (await Migration.find().select('name')).map(migration => migration.name)
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.name)) {
+      continue;
+    }
+
+    console.log(`🔧 Running migration ${migration.name}`);
+    await migration.up();
+    await Migration.create({ name: migration.name });
+  }
+};
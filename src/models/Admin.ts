@@ -1,6 +1,9 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { config } from '../config/environment';
+import { hashToken } from '../utils/tokens';
+import { normalizeRecoveryCode } from '../utils/totp';
 
 /**
  * Admin interface
@@ -12,9 +15,26 @@ export interface IAdmin extends Document {
   role: 'admin' | 'super_admin';
   isActive: boolean;
   lastLogin: Date;
+  passwordChangedAt: Date | null;
+  passwordResetTokenHash?: string | undefined;
+  passwordResetExpires?: Date | undefined;
+  failedLoginCount: number;
+  lockedUntil: Date | null;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string | undefined;
+  twoFactorPendingSecret?: string | undefined;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep: number;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  changedPasswordAfter(issuedAtSeconds: number): boolean;
+  createPasswordResetToken(): string;
+  isLocked(): boolean;
+  registerFailedLogin(): Promise<Date | null>;
+  clearLoginFailures(): void;
+  consumeTotpStep(step: number): Promise<boolean>;
+  useRecoveryCode(code: string): Promise<boolean>;
 }
 
 /**
@@ -60,12 +80,60 @@ const adminSchema = new Schema<IAdmin>({
   lastLogin: {
     type: Date,
     default: null
+  },
+  passwordChangedAt: {
+    type: Date,
+    default: null
+  },
+  passwordResetTokenHash: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    select: false
+  },
+  failedLoginCount: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false // Encrypted TOTP secret
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    select: false // Encrypted secret awaiting confirmation
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    default: [],
+    select: false // SHA-256 hashes of unused recovery codes
+  },
+  twoFactorLastUsedStep: {
+    type: Number,
+    default: -1,
+    select: false // Prevents replaying a TOTP code within its window
   }
 }, {
   timestamps: true,
   toJSON: {
     transform: function(doc, ret) {
       delete ret.password;
+      delete ret.passwordResetTokenHash;
+      delete ret.passwordResetExpires;
+      delete ret.twoFactorSecret;
+      delete ret.twoFactorPendingSecret;
+      delete ret.twoFactorRecoveryCodes;
+      delete ret.twoFactorLastUsedStep;
       delete ret.__v;
       return ret;
     }
@@ -88,6 +156,12 @@ adminSchema.pre('save', async function(next) {
     // Hash password with bcrypt
     const saltRounds = config.BCRYPT_SALT_ROUNDS;
     this.password = await bcrypt.hash(this.password, saltRounds);
+
+    // Record the change so tokens issued before it are rejected.
+    // Backdated by a second because JWT `iat` only has second precision.
+    if (!this.isNew) {
+      this.passwordChangedAt = new Date(Date.now() - 1000);
+    }
     next();
   } catch (error) {
     next(error as Error);
@@ -105,6 +179,102 @@ adminSchema.methods.comparePassword = async function(candidatePassword: string):
   }
 };
 
+/**
+ * Instance method to check if the password changed after a token was issued
+ */
+adminSchema.methods.changedPasswordAfter = function(issuedAtSeconds: number): boolean {
+  if (!this.passwordChangedAt) {
+    return false;
+  }
+  return issuedAtSeconds * 1000 < this.passwordChangedAt.getTime();
+};
+
+/**
+ * Instance method to create a single-use password reset token.
+ * Only the SHA-256 hash is stored; the raw token is returned to be emailed.
+ */
+adminSchema.methods.createPasswordResetToken = function(): string {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+
+  this.passwordResetTokenHash = hashToken(resetToken);
+  this.passwordResetExpires = new Date(Date.now() + config.PASSWORD_RESET_EXPIRE_MINUTES * 60 * 1000);
+
+  return resetToken;
+};
+
+/**
+ * Instance method to check if the account is temporarily locked
+ */
+adminSchema.methods.isLocked = function(): boolean {
+  return !!this.lockedUntil && this.lockedUntil > new Date();
+};
+
+/**
+ * Instance method to record a failed sign-in attempt.
+ * Once LOGIN_MAX_ATTEMPTS is reached the account is locked, and the lock
+ * duration doubles with every further failure (capped at LOGIN_LOCKOUT_MAX_MINUTES).
+ * Returns the lock expiry if the account is now locked.
+ */
+adminSchema.methods.registerFailedLogin = async function(): Promise<Date | null> {
+  // Atomic increment so parallel attempts can't undercount
+  const updated = await Admin.findByIdAndUpdate(
+    this._id,
+    { $inc: { failedLoginCount: 1 } },
+    { new: true }
+  );
+  const failedLoginCount = updated?.failedLoginCount ?? this.failedLoginCount + 1;
+
+  if (failedLoginCount < config.LOGIN_MAX_ATTEMPTS) {
+    return null;
+  }
+
+  const exponent = failedLoginCount - config.LOGIN_MAX_ATTEMPTS;
+  const lockMinutes = Math.min(
+    config.LOGIN_LOCKOUT_BASE_MINUTES * Math.pow(2, exponent),
+    config.LOGIN_LOCKOUT_MAX_MINUTES
+  );
+  const lockedUntil = new Date(Date.now() + lockMinutes * 60 * 1000);
+
+  await Admin.updateOne({ _id: this._id }, { lockedUntil });
+  return lockedUntil;
+};
+
+/**
+ * Instance method to reset failed sign-in tracking (call save() afterwards)
+ */
+adminSchema.methods.clearLoginFailures = function(): void {
+  this.failedLoginCount = 0;
+  this.lockedUntil = null;
+};
+
+/**
+ * Instance method to mark a TOTP time step as used. The step only moves
+ * forward through a conditional update, so parallel requests carrying the
+ * same code cannot both succeed. Returns false if the step was already used.
+ */
+adminSchema.methods.consumeTotpStep = async function(step: number): Promise<boolean> {
+  const result = await Admin.updateOne(
+    { _id: this._id, twoFactorLastUsedStep: { $lt: step } },
+    { $set: { twoFactorLastUsedStep: step } }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Instance method to consume a one-time recovery code. The hash is pulled
+ * atomically, so a code can only ever be redeemed by one request.
+ */
+adminSchema.methods.useRecoveryCode = async function(code: string): Promise<boolean> {
+  const codeHash = hashToken(normalizeRecoveryCode(code));
+  const result = await Admin.updateOne(
+    { _id: this._id, twoFactorRecoveryCodes: codeHash },
+    { $pull: { twoFactorRecoveryCodes: codeHash } }
+  );
+
+  return result.modifiedCount === 1;
+};
+
 /**
  * Static method to find admin by email (including password for authentication)
  */
@@ -123,6 +293,9 @@ adminSchema.virtual('publicInfo').get(function() {
     role: this.role,
     isActive: this.isActive,
     lastLogin: this.lastLogin,
+    failedLoginCount: this.failedLoginCount,
+    lockedUntil: this.lockedUntil,
+    twoFactorEnabled: this.twoFactorEnabled,
     createdAt: this.createdAt,
     updatedAt: this.updatedAt
   };
@@ -0,0 +1,140 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { slugify } from '../utils/slugify';
+
+/**
+ * Gallery album interface (photos of one event, in a chosen order)
+ */
+export interface IAlbum extends Document {
+  title: string;
+  slug: string;
+  description: string;
+  eventDate: Date | null;
+  coverImage: Types.ObjectId | null; // Defaults to the first image when unset
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Album model statics
+ */
+export interface IAlbumModel extends Model<IAlbum> {
+  generateSlug(title: string, excludeId?: Types.ObjectId | string): Promise<string>;
+  saveWithSlug<T>(
+    title: string,
+    excludeId: Types.ObjectId | string | undefined,
+    write: (slug: string) => Promise<T>
+  ): Promise<T>;
+}
+
+/**
+ * How many slugs to try when concurrent requests keep claiming the same one
+ */
+const SLUG_MAX_ATTEMPTS = 5;
+
+/**
+ * Album schema definition
+ */
+const albumSchema = new Schema<IAlbum, IAlbumModel>({
+  title: {
+    type: String,
+    required: [true, 'Album title is required'],
+    trim: true,
+    minlength: [2, 'Album title must be at least 2 characters long'],
+    maxlength: [120, 'Album title cannot exceed 120 characters']
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Album description cannot exceed 1000 characters'],
+    default: ''
+  },
+  eventDate: {
+    type: Date,
+    default: null
+  },
+  coverImage: {
+    type: Schema.Types.ObjectId,
+    ref: 'Gallery',
+    default: null
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Creator admin ID is required']
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Updater admin ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Indexes for album listing
+ */
+albumSchema.index({ eventDate: -1, createdAt: -1 });
+
+/**
+ * Static method to build a slug from a title, numbering it (-2, -3...) when
+ * another album already uses it, since events like an annual fest repeat
+ */
+albumSchema.statics.generateSlug = async function(title: string, excludeId?: Types.ObjectId | string) {
+  const base = slugify(title) || 'album';
+  const taken = new Set(
+    (await this.find({
+      slug: new RegExp(`^${base}(-\\d+)?$`),
+      ...(excludeId ? { _id: { $ne: excludeId } } : {})
+    }).select('slug')).map((album: IAlbum) => album.slug)
+  );
+
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+};
+
+/**
+ * Static method to write an album under a generated slug. Two requests can pick
+ * the same free slug at once; the loser hits the unique index and retries with
+ * the next number instead of failing.
+ */
+albumSchema.statics.saveWithSlug = async function<T>(
+  this: IAlbumModel,
+  title: string,
+  excludeId: Types.ObjectId | string | undefined,
+  write: (slug: string) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const slug = await this.generateSlug(title, excludeId);
+    try {
+      return await write(slug);
+    } catch (error: any) {
+      if (error?.code !== 11000 || !error.keyPattern?.slug || attempt >= SLUG_MAX_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Create and export Album model
+ */
+export const Album = mongoose.model<IAlbum, IAlbumModel>('Album', albumSchema);
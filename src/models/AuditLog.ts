@@ -0,0 +1,117 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Kinds of entities that appear in the audit log
+ */
+export const AUDIT_ENTITY_TYPES = ['Notice', 'NoticeCategory', 'Gallery', 'GalleryCategory', 'Album', 'Admin', 'Auth', 'SecuritySetting', 'Storage'] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+/**
+ * A single changed field
+ */
+interface IAuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Audit log entry interface
+ */
+export interface IAuditLog extends Document {
+  actor: Types.ObjectId | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: Types.ObjectId | null;
+  changes: IAuditChange[];
+  metadata: Record<string, unknown>;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: Date;
+}
+
+/**
+ * Changed field schema
+ */
+const auditChangeSchema = new Schema<IAuditChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  before: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  after: {
+    type: Schema.Types.Mixed,
+    default: null
+  }
+}, { _id: false });
+
+/**
+ * Audit log schema definition (entries are append-only)
+ */
+const auditLogSchema = new Schema<IAuditLog>({
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    default: null // null for anonymous or system actions
+  },
+  actorEmail: {
+    type: String,
+    default: null
+  },
+  action: {
+    type: String,
+    required: [true, 'Audit action is required'],
+    trim: true
+  },
+  entityType: {
+    type: String,
+    required: [true, 'Audit entity type is required'],
+    enum: AUDIT_ENTITY_TYPES
+  },
+  entityId: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  changes: {
+    type: [auditChangeSchema],
+    default: []
+  },
+  metadata: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  ipAddress: {
+    type: String,
+    default: ''
+  },
+  userAgent: {
+    type: String,
+    default: ''
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  minimize: false,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Indexes for the audit log filters
+ */
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+/**
+ * Create and export AuditLog model
+ */
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
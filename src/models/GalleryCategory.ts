@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { slugify } from '../utils/slugify';
+
+/**
+ * Gallery category interface
+ */
+export interface IGalleryCategory extends Document {
+  name: string;
+  slug: string;
+  description: string;
+  displayOrder: number;
+  isActive: boolean;
+  createdBy: Types.ObjectId | null;
+  updatedBy: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Gallery category schema definition
+ */
+const galleryCategorySchema = new Schema<IGalleryCategory>({
+  name: {
+    type: String,
+    required: [true, 'Category name is required'],
+    trim: true,
+    minlength: [2, 'Category name must be at least 2 characters long'],
+    maxlength: [50, 'Category name cannot exceed 50 characters']
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Category description cannot exceed 300 characters'],
+    default: ''
+  },
+  displayOrder: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true // Inactive categories keep their images but can't receive new uploads
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    default: null // null for the categories seeded by migration
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Indexes for category listing
+ */
+galleryCategorySchema.index({ displayOrder: 1, name: 1 });
+
+/**
+ * Keep the slug in sync with the name
+ */
+galleryCategorySchema.pre('validate', function(next) {
+  if (this.isModified('name')) {
+    this.slug = slugify(this.name);
+  }
+  next();
+});
+
+/**
+ * Create and export GalleryCategory model
+ */
+export const GalleryCategory = mongoose.model<IGalleryCategory>('GalleryCategory', galleryCategorySchema);
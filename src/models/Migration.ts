@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Applied migration interface (one document per migration that has run)
+ */
+export interface IMigration extends Document {
+  name: string;
+  appliedAt: Date;
+}
+
+/**
+ * Migration schema definition
+ */
+const migrationSchema = new Schema<IMigration>({
+  name: {
+    type: String,
+    required: [true, 'Migration name is required'],
+    unique: true
+  },
+  appliedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Create and export Migration model
+ */
+export const Migration = mongoose.model<IMigration>('Migration', migrationSchema);
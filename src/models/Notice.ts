@@ -1,40 +1,85 @@
-import mongoose, { Document, Schema, Types } from 'mongoose';
+import mongoose, { Document, Model, Query, Schema, Types } from 'mongoose';
+import { ISoftDeletable, softDeletePlugin } from './plugins/softDelete';
+import { config } from '../config/environment';
 
 /**
- * File attachment interface for Cloudinary integration
+ * File attachment interface
  */
-interface IAttachment {
+export interface IAttachment {
+  _id?: Types.ObjectId;
   filename: string;
   originalName: string;
-  url: string; // Cloudinary URL
-  publicId: string; // Cloudinary public ID for deletions
+  url: string; // Public URL from the storage provider
+  publicId: string; // Storage provider key for deletions
   size: number;
   mimeType: string;
-  format: string; // File format from Cloudinary
+  format: string; // File format reported by the storage provider
   resourceType: string; // image, video, raw, etc.
   width?: number; // For images/videos
   height?: number; // For images/videos
+  caption: string;
 }
 
+/**
+ * Who a notice is meant for (empty lists mean all students)
+ */
+export interface INoticeAudience {
+  departments: string[];
+  years: number[];
+}
+
+/**
+ * How prominently a notice should be shown
+ */
+export const NOTICE_PRIORITIES = ['normal', 'important', 'urgent'] as const;
+export type NoticePriority = typeof NOTICE_PRIORITIES[number];
+
+/**
+ * Publishing status of a notice as shown to admins
+ */
+export const NOTICE_STATUSES = ['published', 'unpublished', 'upcoming', 'expired'] as const;
+export type NoticeStatus = typeof NOTICE_STATUSES[number];
+
 /**
  * Notice interface
  */
-export interface INotice extends Document {
+export interface INotice extends Document, ISoftDeletable {
   title: string;
   description: string;
   date: Date;
-  attachment?: IAttachment;
+  attachments: Types.DocumentArray<IAttachment>; // Ordered as shown to readers
+  category: Types.ObjectId | null;
+  tags: string[];
+  audience: INoticeAudience;
+  priority: NoticePriority;
+  pinned: boolean;
+  pinnedUntil: Date | null; // Pin is lifted automatically after this time (null = until unpinned)
+  currentRevision: number; // Number of the latest saved revision (0 if none yet)
+  publishAt: Date | null; // Visible from this time (null = immediately)
+  expiresAt: Date | null; // Hidden from this time (null = never)
+  publishedAt: Date | null; // When the notice actually went public
+  expiredAt: Date | null; // When the notice actually expired
   createdBy: Types.ObjectId;
   updatedBy: Types.ObjectId;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  activate(): Promise<INotice>;
+  deactivate(): Promise<INotice>;
 }
 
 /**
- * Attachment schema for Cloudinary integration
+ * Notice model statics
  */
-const attachmentSchema = new Schema<IAttachment>({
+export interface INoticeModel extends Model<INotice> {
+  findActive(): Query<INotice[], INotice>;
+  searchByText(searchText: string): Query<INotice[], INotice>;
+}
+
+/**
+ * Attachment schema
+ */
+export const attachmentSchema = new Schema<IAttachment>({
   filename: {
     type: String,
     required: true
@@ -74,13 +119,49 @@ const attachmentSchema = new Schema<IAttachment>({
   height: {
     type: Number,
     required: false
+  },
+  caption: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Caption cannot exceed 200 characters'],
+    default: ''
+  }
+});
+
+/**
+ * Virtual for attachment file extension
+ */
+attachmentSchema.virtual('extension').get(function() {
+  return this.filename.split('.').pop()?.toLowerCase() ?? null;
+});
+
+/**
+ * Virtual for attachment kind (image, pdf or document)
+ */
+attachmentSchema.virtual('kind').get(function() {
+  if (this.mimeType.startsWith('image/')) return 'image';
+  if (this.mimeType === 'application/pdf') return 'pdf';
+  return 'document';
+});
+
+/**
+ * Audience schema (empty lists mean all students)
+ */
+export const audienceSchema = new Schema<INoticeAudience>({
+  departments: {
+    type: [String],
+    default: []
+  },
+  years: {
+    type: [Number],
+    default: []
   }
 }, { _id: false });
 
 /**
  * Notice schema definition
  */
-const noticeSchema = new Schema<INotice>({
+const noticeSchema = new Schema<INotice, INoticeModel>({
   title: {
     type: String,
     required: [true, 'Notice title is required'],
@@ -100,9 +181,68 @@ const noticeSchema = new Schema<INotice>({
     required: [true, 'Notice date is required'],
     default: Date.now
   },
-  attachment: {
-    type: attachmentSchema,
-    required: false
+  attachments: {
+    type: [attachmentSchema],
+    default: [],
+    validate: {
+      validator: (value: IAttachment[]) => value.length <= config.NOTICE_MAX_ATTACHMENTS,
+      message: `A notice can have at most ${config.NOTICE_MAX_ATTACHMENTS} attachments`
+    }
+  },
+  category: {
+    type: Schema.Types.ObjectId,
+    ref: 'NoticeCategory',
+    default: null
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  audience: {
+    type: audienceSchema,
+    default: () => ({})
+  },
+  priority: {
+    type: String,
+    enum: {
+      values: NOTICE_PRIORITIES,
+      message: 'Priority must be one of normal, important, urgent'
+    },
+    default: 'normal'
+  },
+  pinned: {
+    type: Boolean,
+    default: false
+  },
+  pinnedUntil: {
+    type: Date,
+    default: null
+  },
+  currentRevision: {
+    type: Number,
+    default: 0
+  },
+  publishAt: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    default: null,
+    validate: {
+      validator: function(this: INotice, value: Date | null) {
+        return !value || !this.publishAt || value > this.publishAt;
+      },
+      message: 'Expiry must be after the publish time'
+    }
+  },
+  publishedAt: {
+    type: Date,
+    default: null
+  },
+  expiredAt: {
+    type: Date,
+    default: null
   },
   createdBy: {
     type: Schema.Types.ObjectId,
@@ -128,24 +268,26 @@ const noticeSchema = new Schema<INotice>({
   }
 });
 
+/**
+ * Deleted notices go to the trash until purged
+ */
+noticeSchema.plugin(softDeletePlugin);
+
 /**
  * Indexes for better query performance
  */
 noticeSchema.index({ date: -1 });
 noticeSchema.index({ createdAt: -1 });
 noticeSchema.index({ isActive: 1 });
+noticeSchema.index({ isActive: 1, publishAt: 1, expiresAt: 1 });
+noticeSchema.index({ pinned: -1, date: -1 });
+noticeSchema.index({ pinned: 1, pinnedUntil: 1 });
+noticeSchema.index({ category: 1 });
+noticeSchema.index({ tags: 1 });
+noticeSchema.index({ 'audience.departments': 1 });
+noticeSchema.index({ 'audience.years': 1 });
 noticeSchema.index({ title: 'text', description: 'text' }); // Text search index
 
-/**
- * Virtual for attachment URL (returns Cloudinary URL)
- */
-noticeSchema.virtual('attachmentUrl').get(function() {
-  if (this.attachment) {
-    return this.attachment.url;
-  }
-  return null;
-});
-
 /**
  * Virtual for formatted date
  */
@@ -158,42 +300,78 @@ noticeSchema.virtual('formattedDate').get(function() {
 });
 
 /**
- * Virtual for attachment file extension
+ * Virtual for publishing status shown to admins
  */
-noticeSchema.virtual('attachmentExtension').get(function() {
-  if (this.attachment) {
-    return this.attachment.filename.split('.').pop()?.toLowerCase();
-  }
-  return null;
+noticeSchema.virtual('status').get(function(): NoticeStatus {
+  const now = new Date();
+  if (!this.isActive) return 'unpublished';
+  if (this.publishAt && this.publishAt > now) return 'upcoming';
+  if (this.expiresAt && this.expiresAt <= now) return 'expired';
+  return 'published';
 });
 
 /**
- * Virtual for attachment type (image, pdf, etc.)
+ * Filter matching notices the public may see: active and inside the publish window
  */
-noticeSchema.virtual('attachmentType').get(function() {
-  if (this.attachment) {
-    if (this.attachment.mimeType.startsWith('image/')) return 'image';
-    if (this.attachment.mimeType === 'application/pdf') return 'pdf';
-    return 'document';
-  }
-  return null;
+export const getPublicNoticeFilter = (now: Date = new Date()) => ({
+  isActive: true,
+  $and: [
+    { $or: [{ publishAt: null }, { publishAt: { $lte: now } }] },
+    { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] }
+  ]
 });
 
 /**
- * Static method to find active notices
+ * Filter matching notices with the given admin-facing status
+ */
+export const getNoticeStatusFilter = (status: NoticeStatus, now: Date = new Date()): Record<string, any> => {
+  switch (status) {
+    case 'published':
+      return getPublicNoticeFilter(now);
+    case 'unpublished':
+      return { isActive: false };
+    case 'upcoming':
+      return { isActive: true, publishAt: { $gt: now } };
+    case 'expired':
+      return { isActive: true, expiresAt: { $lte: now } };
+  }
+};
+
+/**
+ * Work out publishedAt/expiredAt for a notice after its window or isActive flag
+ * changed, keeping the earlier timestamps when the state is unchanged
+ */
+export const getScheduleTimestamps = (
+  notice: Pick<INotice, 'isActive' | 'publishAt' | 'expiresAt'> & Partial<Pick<INotice, 'publishedAt' | 'expiredAt'>>,
+  now: Date = new Date()
+): { publishedAt: Date | null; expiredAt: Date | null } => {
+  const isLive = notice.isActive && (!notice.publishAt || notice.publishAt <= now);
+  const isExpired = !!notice.expiresAt && notice.expiresAt <= now;
+
+  return {
+    publishedAt: isLive ? (notice.publishedAt ?? now) : null,
+    expiredAt: isExpired ? (notice.expiredAt ?? now) : null
+  };
+};
+
+/**
+ * Static method to find notices visible to the public
  */
 noticeSchema.statics.findActive = function() {
-  return this.find({ isActive: true });
+  return this.find(getPublicNoticeFilter());
 };
 
 /**
  * Static method to search notices by text
  */
 noticeSchema.statics.searchByText = function(searchText: string) {
-  return this.find({
-    $text: { $search: searchText },
-    isActive: true
-  }).sort({ score: { $meta: 'textScore' } });
+  return this.find(
+    {
+      $text: { $search: searchText },
+      ...getPublicNoticeFilter()
+    },
+    { score: { $meta: 'textScore' } }
+  ).sort({ score: { $meta: 'textScore' } });
 };
 
 /**
@@ -231,4 +409,4 @@ noticeSchema.pre('save', function(next) {
 /**
  * Create and export Notice model
  */
-export const Notice = mongoose.model<INotice>('Notice', noticeSchema);
+export const Notice = mongoose.model<INotice, INoticeModel>('Notice', noticeSchema);
@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { slugify } from '../utils/slugify';
+
+/**
+ * Notice category interface
+ */
+export interface INoticeCategory extends Document {
+  name: string;
+  slug: string;
+  description: string;
+  displayOrder: number;
+  createdBy: Types.ObjectId;
+  updatedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Notice category schema definition
+ */
+const noticeCategorySchema = new Schema<INoticeCategory>({
+  name: {
+    type: String,
+    required: [true, 'Category name is required'],
+    trim: true,
+    minlength: [2, 'Category name must be at least 2 characters long'],
+    maxlength: [50, 'Category name cannot exceed 50 characters']
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Category description cannot exceed 300 characters'],
+    default: ''
+  },
+  displayOrder: {
+    type: Number,
+    default: 0
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Creator admin ID is required']
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Updater admin ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Indexes for category listing
+ */
+noticeCategorySchema.index({ displayOrder: 1, name: 1 });
+
+/**
+ * Keep the slug in sync with the name
+ */
+noticeCategorySchema.pre('validate', function(next) {
+  if (this.isModified('name')) {
+    this.slug = slugify(this.name);
+  }
+  next();
+});
+
+/**
+ * Create and export NoticeCategory model
+ */
+export const NoticeCategory = mongoose.model<INoticeCategory>('NoticeCategory', noticeCategorySchema);
@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IAttachment, INoticeAudience, attachmentSchema, audienceSchema } from './Notice';
+
+/**
+ * What produced a revision
+ */
+export const NOTICE_REVISION_ACTIONS = ['create', 'update', 'restore'] as const;
+export type NoticeRevisionAction = typeof NOTICE_REVISION_ACTIONS[number];
+
+/**
+ * Notice revision interface (a snapshot of a notice's content after a change)
+ */
+export interface INoticeRevision extends Document {
+  notice: Types.ObjectId;
+  revision: number;
+  title: string;
+  description: string;
+  date: Date;
+  attachments: IAttachment[];
+  category: Types.ObjectId | null;
+  tags: string[];
+  audience: INoticeAudience;
+  action: NoticeRevisionAction;
+  restoredFrom: number | null;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Notice revision schema definition
+ */
+const noticeRevisionSchema = new Schema<INoticeRevision>({
+  notice: {
+    type: Schema.Types.ObjectId,
+    ref: 'Notice',
+    required: [true, 'Notice ID is required']
+  },
+  revision: {
+    type: Number,
+    required: [true, 'Revision number is required'],
+    min: [1, 'Revision number must be at least 1']
+  },
+  title: {
+    type: String,
+    required: [true, 'Notice title is required']
+  },
+  description: {
+    type: String,
+    required: [true, 'Notice description is required']
+  },
+  date: {
+    type: Date,
+    required: [true, 'Notice date is required']
+  },
+  attachments: {
+    type: [attachmentSchema],
+    default: []
+  },
+  category: {
+    type: Schema.Types.ObjectId,
+    ref: 'NoticeCategory',
+    default: null
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  audience: {
+    type: audienceSchema,
+    default: () => ({})
+  },
+  action: {
+    type: String,
+    enum: NOTICE_REVISION_ACTIONS,
+    required: [true, 'Revision action is required']
+  },
+  restoredFrom: {
+    type: Number,
+    default: null
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Revision author is required']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Indexes for revision lookups
+ */
+noticeRevisionSchema.index({ notice: 1, revision: -1 }, { unique: true });
+
+/**
+ * Create and export NoticeRevision model
+ */
+export const NoticeRevision = mongoose.model<INoticeRevision>('NoticeRevision', noticeRevisionSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Security settings interface (single global document)
+ */
+export interface ISecuritySetting extends Document {
+  key: string;
+  requireTwoFactor: boolean;
+  updatedBy: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Security settings model statics
+ */
+export interface ISecuritySettingModel extends Model<ISecuritySetting> {
+  getSettings(): Promise<ISecuritySetting>;
+}
+
+/**
+ * Security settings schema definition
+ */
+const securitySettingSchema = new Schema<ISecuritySetting, ISecuritySettingModel>({
+  key: {
+    type: String,
+    default: 'global',
+    unique: true
+  },
+  requireTwoFactor: {
+    type: Boolean,
+    default: false
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Static method to get the global settings, creating defaults on first use
+ */
+securitySettingSchema.statics.getSettings = function() {
+  return this.findOneAndUpdate(
+    { key: 'global' },
+    { $setOnInsert: { key: 'global' } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+/**
+ * Create and export SecuritySetting model
+ */
+export const SecuritySetting = mongoose.model<ISecuritySetting, ISecuritySettingModel>(
+  'SecuritySetting',
+  securitySettingSchema
+);
@@ -0,0 +1,188 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Session interface (one per signed-in device)
+ */
+export interface ISession extends Document {
+  admin: Types.ObjectId;
+  refreshTokenHash: string;
+  userAgent: string;
+  ipAddress: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  isValid(): boolean;
+  revoke(reason: string): Promise<ISession>;
+}
+
+/**
+ * Outcome of presenting a refresh token for rotation
+ */
+export type RefreshRotationResult =
+  | { status: 'rotated'; session: ISession }
+  | { status: 'reused'; session: ISession }
+  | { status: 'invalid' };
+
+/**
+ * Session model statics
+ */
+export interface ISessionModel extends Model<ISession> {
+  revokeAllForAdmin(
+    adminId: Types.ObjectId | string,
+    reason: string,
+    exceptSessionId?: Types.ObjectId | string
+  ): Promise<number>;
+  rotateRefreshToken(
+    sessionId: Types.ObjectId | string,
+    currentTokenHash: string,
+    nextTokenHash: string,
+    client?: { userAgent?: string | undefined; ipAddress?: string | undefined }
+  ): Promise<RefreshRotationResult>;
+}
+
+/**
+ * Session schema definition
+ */
+const sessionSchema = new Schema<ISession, ISessionModel>({
+  admin: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Admin ID is required']
+  },
+  refreshTokenHash: {
+    type: String,
+    required: [true, 'Refresh token hash is required'],
+    select: false // Never expose token hashes in queries by default
+  },
+  userAgent: {
+    type: String,
+    default: ''
+  },
+  ipAddress: {
+    type: String,
+    default: ''
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Session expiry is required']
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.refreshTokenHash;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Indexes for session lookups and automatic cleanup of expired sessions
+ */
+sessionSchema.index({ admin: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Instance method to check whether the session can still be used
+ */
+sessionSchema.methods.isValid = function(): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+/**
+ * Instance method to revoke the session
+ */
+sessionSchema.methods.revoke = function(reason: string) {
+  this.revokedAt = new Date();
+  this.revokedReason = reason;
+  return this.save();
+};
+
+/**
+ * Static method to revoke every active session of an admin
+ */
+sessionSchema.statics.revokeAllForAdmin = async function(
+  adminId: Types.ObjectId | string,
+  reason: string,
+  exceptSessionId?: Types.ObjectId | string
+): Promise<number> {
+  const filter: Record<string, unknown> = { admin: adminId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await this.updateMany(filter, {
+    revokedAt: new Date(),
+    revokedReason: reason
+  });
+
+  return result.modifiedCount;
+};
+
+/**
+ * Static method to swap the refresh token hash of a live session in a single
+ * conditional update, so two requests can never both rotate the same token.
+ * A live session whose hash did not match means a rotated-out token was
+ * replayed; that session is revoked and reported as reused.
+ */
+sessionSchema.statics.rotateRefreshToken = async function(
+  sessionId: Types.ObjectId | string,
+  currentTokenHash: string,
+  nextTokenHash: string,
+  client: { userAgent?: string | undefined; ipAddress?: string | undefined } = {}
+): Promise<RefreshRotationResult> {
+  const now = new Date();
+  const update: Record<string, unknown> = {
+    refreshTokenHash: nextTokenHash,
+    lastUsedAt: now
+  };
+  if (client.userAgent) {
+    update.userAgent = client.userAgent;
+  }
+  if (client.ipAddress) {
+    update.ipAddress = client.ipAddress;
+  }
+
+  const rotated = await this.findOneAndUpdate(
+    {
+      _id: sessionId,
+      refreshTokenHash: currentTokenHash,
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    },
+    { $set: update },
+    { new: true }
+  );
+  if (rotated) {
+    return { status: 'rotated', session: rotated };
+  }
+
+  const session = await this.findById(sessionId);
+  if (!session || !session.isValid()) {
+    return { status: 'invalid' };
+  }
+
+  await session.revoke('refresh_token_reuse');
+  return { status: 'reused', session };
+};
+
+/**
+ * Create and export Session model
+ */
+export const Session = mongoose.model<ISession, ISessionModel>('Session', sessionSchema);
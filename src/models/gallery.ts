@@ -1,9 +1,58 @@
-import mongoose, { Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ISoftDeletable, softDeletePlugin } from './plugins/softDelete';
 
-const gallerySchema = new Schema(
+// A stored rendition of the image (responsive variant or thumbnail)
+export interface IGalleryImageVariant {
+  url: string;
+  publicId: string;
+  format: string;
+  size?: number;
+  width: number;
+  height: number;
+}
+
+// The stored original with its renditions
+export interface IGalleryImage {
+  url: string;
+  publicId?: string;
+  format?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  variants: IGalleryImageVariant[];
+  thumbnail: IGalleryImageVariant | null;
+  placeholder: string | null;
+}
+
+export interface IGallery extends Document, ISoftDeletable {
+  title: string;
+  description?: string;
+  image: IGalleryImage;
+  category: Types.ObjectId;
+  date: Date;
+  album: Types.ObjectId | null;
+  albumPosition: number;
+  uploadedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const imageVariantSchema = new Schema<IGalleryImageVariant>(
+  {
+    url: { type: String, required: true },
+    publicId: { type: String, required: true },
+    format: { type: String, required: true },
+    size: { type: Number },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const gallerySchema = new Schema<IGallery>(
   {
-    title: { type: String, required: true },
-    description: { type: String },
+    title: { type: String, required: true, trim: true, maxlength: [100, 'Title cannot exceed 100 characters'] },
+    description: { type: String, trim: true, maxlength: [1000, 'Description cannot exceed 1000 characters'] },
     image: {
       url: { type: String, required: true },
       publicId: { type: String },
@@ -11,18 +60,26 @@ const gallerySchema = new Schema(
       size: { type: Number },
       width: { type: Number },
       height: { type: Number },
+      variants: { type: [imageVariantSchema], default: [] }, // Responsive sizes in modern formats
+      thumbnail: { type: imageVariantSchema, default: null },
+      placeholder: { type: String, default: null }, // Tiny blurred data URI (LQIP)
     },
     category: {
-      type: String,
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'GalleryCategory',
       required: true, // Ensure a category is always provided
-      trim: true, // Remove extra whitespace
-      enum: ['College Events', 'Workshops & Seminars', 'Campus Tour', 'Technical Competitions', 'Sports & Cultural'], // Optional: restrict to specific categories
     },
     date: {
-    type: Date,
-    required: [true, 'Notice date is required'],
-    default: Date.now
-  },
+      type: Date,
+      required: [true, 'Image date is required'],
+      default: Date.now,
+    },
+    album: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Album',
+      default: null,
+    },
+    albumPosition: { type: Number, default: 0 }, // Order of the image within its album
     uploadedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Admin',
@@ -32,4 +89,13 @@ const gallerySchema = new Schema(
   { timestamps: true }
 );
 
-export default mongoose.model('Gallery', gallerySchema);
\ No newline at end of file
+gallerySchema.index({ album: 1, albumPosition: 1 });
+
+// Newest-first listing, optionally within one category (the _id breaks ties between equal dates)
+gallerySchema.index({ date: -1, _id: -1 });
+gallerySchema.index({ category: 1, date: -1, _id: -1 });
+
+// Deleted images go to the trash until purged
+gallerySchema.plugin(softDeletePlugin);
+
+export default mongoose.model<IGallery>('Gallery', gallerySchema);
\ No newline at end of file
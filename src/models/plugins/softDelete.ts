@@ -0,0 +1,76 @@
+import { MongooseQueryMiddleware, PipelineStage, Schema, Types } from 'mongoose';
+
+/**
+ * Fields added to documents by the soft delete plugin
+ */
+export interface ISoftDeletable {
+  deletedAt: Date | null;
+  deletedBy: Types.ObjectId | null;
+}
+
+/**
+ * Query operations that hide trashed documents
+ */
+const FILTERED_QUERY_OPERATIONS: MongooseQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'countDocuments',
+  'updateOne',
+  'updateMany',
+  'distinct'
+];
+
+/**
+ * Soft delete plugin: adds deletedAt/deletedBy and hides trashed documents from
+ * queries and aggregations. A query sees trashed documents when its filter
+ * mentions deletedAt (e.g. `{ deletedAt: { $ne: null } }` for the trash) or
+ * when it sets the `withDeleted` option.
+ */
+export const softDeletePlugin = (schema: Schema<any, any>): void => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+      default: null
+    }
+  });
+
+  schema.index({ deletedAt: 1 });
+
+  schema.pre(FILTERED_QUERY_OPERATIONS, function() {
+    if (this.getOptions().withDeleted || 'deletedAt' in this.getFilter()) {
+      return;
+    }
+    this.where({ deletedAt: null });
+  });
+
+  schema.pre('aggregate', function() {
+    if ((this.options as Record<string, unknown>).withDeleted) {
+      return;
+    }
+
+    const pipeline = this.pipeline();
+    const firstStage = pipeline[0] as Record<string, any> | undefined;
+
+    // $geoNear and $search must stay first, so filter right after them
+    if (firstStage && ('$geoNear' in firstStage || '$search' in firstStage)) {
+      pipeline.splice(1, 0, { $match: { deletedAt: null } } as PipelineStage);
+      return;
+    }
+
+    // Merge into a leading $match so $text stays in the first stage
+    if (firstStage?.$match) {
+      if (!('deletedAt' in firstStage.$match)) {
+        firstStage.$match.deletedAt = null;
+      }
+      return;
+    }
+
+    pipeline.unshift({ $match: { deletedAt: null } } as PipelineStage);
+  });
+};
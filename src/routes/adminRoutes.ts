@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/adminController';
+import { authenticateAdmin, authorizeRole } from '../middlewares/auth';
+import { validateIdParam } from '../middlewares/validation';
+import { adminRegistrationSchema, adminRoleSchema, adminUpdateSchema, securityPolicySchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
+
+/**
+ * Admin account management routes
+ */
+const router = Router();
+
+// Every admin management route requires a super admin
+router.use(authenticateAdmin, authorizeRole(['super_admin']));
+
+/**
+ * @route   POST /api/admins
+ * @desc    Create a new admin
+ * @access  Private (Super admin only)
+ */
+router.post('/', AdminController.createAdmin);
+
+/**
+ * @route   GET /api/admins
+ * @desc    Get all admins
+ * @access  Private (Super admin only)
+ */
+router.get('/', AdminController.getAllAdmins);
+
+/**
+ * @route   GET /api/admins/security-policy
+ * @desc    Get the global security policy
+ * @access  Private (Super admin only)
+ */
+router.get('/security-policy', AdminController.getSecurityPolicy);
+
+/**
+ * @route   PUT /api/admins/security-policy
+ * @desc    Update the global security policy (e.g. require 2FA for all admins)
+ * @access  Private (Super admin only)
+ */
+router.put('/security-policy', AdminController.updateSecurityPolicy);
+
+/**
+ * @route   GET /api/admins/:id
+ * @desc    Get a single admin by ID
+ * @access  Private (Super admin only)
+ */
+router.get('/:id', validateIdParam(), AdminController.getAdminById);
+
+/**
+ * @route   PUT /api/admins/:id
+ * @desc    Update an admin's name or email
+ * @access  Private (Super admin only)
+ */
+router.put('/:id', validateIdParam(), AdminController.updateAdmin);
+
+/**
+ * @route   PATCH /api/admins/:id/role
+ * @desc    Change an admin's role
+ * @access  Private (Super admin only)
+ */
+router.patch('/:id/role', validateIdParam(), AdminController.changeRole);
+
+/**
+ * @route   PATCH /api/admins/:id/deactivate
+ * @desc    Deactivate an admin account
+ * @access  Private (Super admin only)
+ */
+router.patch('/:id/deactivate', validateIdParam(), AdminController.deactivateAdmin);
+
+/**
+ * @route   PATCH /api/admins/:id/activate
+ * @desc    Reactivate an admin account
+ * @access  Private (Super admin only)
+ */
+router.patch('/:id/activate', validateIdParam(), AdminController.activateAdmin);
+
+/**
+ * @route   PATCH /api/admins/:id/unlock
+ * @desc    Unlock an account locked by failed sign-in attempts
+ * @access  Private (Super admin only)
+ */
+router.patch('/:id/unlock', validateIdParam(), AdminController.unlockAdmin);
+
+/**
+ * @route   PATCH /api/admins/:id/2fa/reset
+ * @desc    Reset an admin's two-factor authentication
+ * @access  Private (Super admin only)
+ */
+router.patch('/:id/2fa/reset', validateIdParam(), AdminController.resetTwoFactor);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'create', method: 'post', path: '/', summary: 'Create a new admin', access: 'super_admin', body: adminRegistrationSchema, status: 201 },
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get all admins', access: 'super_admin' },
+  { name: 'getSecurityPolicy', method: 'get', path: '/security-policy', summary: 'Get the global security policy', access: 'super_admin' },
+  { name: 'updateSecurityPolicy', method: 'put', path: '/security-policy', summary: 'Update the global security policy (e.g. require 2FA for all admins)', access: 'super_admin', body: securityPolicySchema },
+  { name: 'getById', method: 'get', path: '/:id', summary: 'Get a single admin by ID', access: 'super_admin' },
+  { name: 'update', method: 'put', path: '/:id', summary: 'Update the name or email of an admin', access: 'super_admin', body: adminUpdateSchema },
+  { name: 'changeRole', method: 'patch', path: '/:id/role', summary: 'Change the role of an admin', access: 'super_admin', body: adminRoleSchema },
+  { name: 'deactivate', method: 'patch', path: '/:id/deactivate', summary: 'Deactivate an admin account', access: 'super_admin' },
+  { name: 'activate', method: 'patch', path: '/:id/activate', summary: 'Reactivate an admin account', access: 'super_admin' },
+  { name: 'unlock', method: 'patch', path: '/:id/unlock', summary: 'Unlock an account locked by failed sign-in attempts', access: 'super_admin' },
+  { name: 'resetTwoFactor', method: 'patch', path: '/:id/2fa/reset', summary: 'Reset two-factor authentication for an admin', access: 'super_admin' }
+];
+
+export default router;
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { AlbumController } from '../controllers/albumController';
+import { authenticateAdmin } from '../middlewares/auth';
+import { validateIdParam } from '../middlewares/validation';
+import { albumImagesSchema, albumOrderSchema, albumSchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
+
+/**
+ * Gallery album routes
+ */
+const router = Router();
+
+/**
+ * @route   GET /api/gallery/albums
+ * @desc    Get all albums with image counts and covers
+ * @access  Public
+ */
+router.get('/', AlbumController.getAlbums);
+
+/**
+ * @route   POST /api/gallery/albums
+ * @desc    Create an album
+ * @access  Private (Admin only)
+ */
+router.post('/', authenticateAdmin, AlbumController.createAlbum);
+
+/**
+ * @route   GET /api/gallery/albums/:idOrSlug
+ * @desc    Get an album with its images in album order
+ * @access  Public
+ */
+router.get('/:idOrSlug', AlbumController.getAlbum);
+
+/**
+ * @route   PUT /api/gallery/albums/:id
+ * @desc    Update an album's details and cover image
+ * @access  Private (Admin only)
+ */
+router.put('/:id', authenticateAdmin, validateIdParam(), AlbumController.updateAlbum);
+
+/**
+ * @route   DELETE /api/gallery/albums/:id
+ * @desc    Delete an album (its images stay in the gallery)
+ * @access  Private (Admin only)
+ */
+router.delete('/:id', authenticateAdmin, validateIdParam(), AlbumController.deleteAlbum);
+
+/**
+ * @route   POST /api/gallery/albums/:id/images
+ * @desc    Add gallery images to the end of an album
+ * @access  Private (Admin only)
+ */
+router.post('/:id/images', authenticateAdmin, validateIdParam(), AlbumController.addImages);
+
+/**
+ * @route   PATCH /api/gallery/albums/:id/order
+ * @desc    Set the order of an album's images
+ * @access  Private (Admin only)
+ */
+router.patch('/:id/order', authenticateAdmin, validateIdParam(), AlbumController.reorderImages);
+
+/**
+ * @route   DELETE /api/gallery/albums/:id/images/:imageId
+ * @desc    Take an image out of an album
+ * @access  Private (Admin only)
+ */
+router.delete(
+  '/:id/images/:imageId',
+  authenticateAdmin,
+  validateIdParam(),
+  validateIdParam('imageId'),
+  AlbumController.removeImage
+);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get all albums with image counts and covers', access: 'public' },
+  { name: 'create', method: 'post', path: '/', summary: 'Create an album', access: 'admin', body: albumSchema, status: 201 },
+  { name: 'getOne', method: 'get', path: '/:idOrSlug', summary: 'Get an album with its images in album order', access: 'public' },
+  { name: 'update', method: 'put', path: '/:id', summary: 'Update the details and cover image of an album', access: 'admin', body: albumSchema },
+  { name: 'delete', method: 'delete', path: '/:id', summary: 'Delete an album (its images stay in the gallery)', access: 'admin' },
+  { name: 'addImages', method: 'post', path: '/:id/images', summary: 'Add gallery images to the end of an album', access: 'admin', body: albumImagesSchema },
+  { name: 'reorder', method: 'patch', path: '/:id/order', summary: 'Set the order of the images in an album', access: 'admin', body: albumOrderSchema },
+  { name: 'removeImage', method: 'delete', path: '/:id/images/:imageId', summary: 'Take an image out of an album', access: 'admin' }
+];
+
+export default router;
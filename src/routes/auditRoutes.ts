@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/auditController';
+import { authenticateAdmin, authorizeRole } from '../middlewares/auth';
+import { auditQuerySchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
+
+/**
+ * Audit log routes
+ */
+const router = Router();
+
+/**
+ * @route   GET /api/audit
+ * @desc    Get audit log entries (filter by actor, action, entityType, entityId, from, to)
+ * @access  Private (Super admin only)
+ */
+router.get('/', authenticateAdmin, authorizeRole(['super_admin']), AuditController.getAuditLogs);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get audit log entries', access: 'super_admin', query: auditQuerySchema }
+];
+
+export default router;
@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticateAdmin } from '../middlewares/auth';
+import { TwoFactorController } from '../controllers/twoFactorController';
+import { authenticateAdmin, authenticateAdminAllowingTwoFactorSetup } from '../middlewares/auth';
+import { validateIdParam } from '../middlewares/validation';
+import { signInRateLimiter, passwordResetRateLimiter } from '../middlewares/rateLimiter';
+import { changePasswordSchema, forgotPasswordSchema, resetPasswordSchema, signInSchema, twoFactorCodeSchema, twoFactorDisableSchema, twoFactorSignInSchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
 
 /**
  * Authentication routes
@@ -12,22 +17,141 @@ const router = Router();
  * @desc    Admin sign in
  * @access  Public
  */
-router.post('/signin', AuthController.signIn);
+router.post('/signin', signInRateLimiter, AuthController.signIn);
+
+/**
+ * @route   POST /api/auth/signin/2fa
+ * @desc    Complete sign in with a TOTP or recovery code
+ * @access  Public (requires MFA token from sign in)
+ */
+router.post('/signin/2fa', signInRateLimiter, AuthController.verifyTwoFactorSignIn);
 
 /**
  * @route   GET /api/auth/profile
  * @desc    Get current admin profile
  * @access  Private (Admin only)
  */
-router.get('/profile', authenticateAdmin, AuthController.getProfile);
+router.get('/profile', authenticateAdminAllowingTwoFactorSetup, AuthController.getProfile);
 
 /**
  * @route   GET /api/auth/verify
  * @desc    Verify JWT token
  * @access  Private (Admin only)
  */
-router.get('/verify', authenticateAdmin, AuthController.verifyToken);
+router.get('/verify', authenticateAdminAllowingTwoFactorSetup, AuthController.verifyToken);
+
+/**
+ * @route   PUT /api/auth/password
+ * @desc    Change the current admin's password
+ * @access  Private (Admin only)
+ */
+router.put('/password', authenticateAdmin, AuthController.changePassword);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Request a password reset email
+ * @access  Public
+ */
+router.post('/forgot-password', passwordResetRateLimiter, AuthController.forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Reset password using a reset token
+ * @access  Public
+ */
+router.post('/reset-password', passwordResetRateLimiter, AuthController.resetPassword);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Rotate refresh token and issue a new access token
+ * @access  Public (requires refresh token cookie)
+ */
+router.post('/refresh', AuthController.refresh);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the current admin's active sessions
+ * @access  Private (Admin only)
+ */
+router.get('/sessions', authenticateAdmin, AuthController.getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke one of the current admin's sessions
+ * @access  Private (Admin only)
+ */
+router.delete('/sessions/:id', authenticateAdmin, validateIdParam(), AuthController.revokeSession);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Admin logout (revokes the current session)
+ * @access  Public
+ */
+router.post('/logout', AuthController.logout);
+
+/**
+ * @route   POST /api/auth/logout-all
+ * @desc    Log out from every device
+ * @access  Private (Admin only)
+ */
+router.post('/logout-all', authenticateAdminAllowingTwoFactorSetup, AuthController.logoutAll);
+
+/**
+ * @route   GET /api/auth/2fa
+ * @desc    Get the current admin's two-factor status
+ * @access  Private (Admin only)
+ */
+router.get('/2fa', authenticateAdminAllowingTwoFactorSetup, TwoFactorController.getStatus);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor enrollment (returns secret and otpauth URI)
+ * @access  Private (Admin only)
+ */
+router.post('/2fa/setup', authenticateAdminAllowingTwoFactorSetup, TwoFactorController.setup);
 
-router.post('/logout', AuthController.logout)
+/**
+ * @route   POST /api/auth/2fa/confirm
+ * @desc    Confirm enrollment with a code and receive recovery codes
+ * @access  Private (Admin only)
+ */
+router.post('/2fa/confirm', authenticateAdminAllowingTwoFactorSetup, TwoFactorController.confirm);
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Regenerate recovery codes
+ * @access  Private (Admin only)
+ */
+router.post('/2fa/recovery-codes', authenticateAdmin, TwoFactorController.regenerateRecoveryCodes);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Disable two-factor authentication
+ * @access  Private (Admin only)
+ */
+router.post('/2fa/disable', authenticateAdmin, TwoFactorController.disable);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'signin', method: 'post', path: '/signin', summary: 'Admin sign in', access: 'public', body: signInSchema },
+  { name: 'signinTwoFactor', method: 'post', path: '/signin/2fa', summary: 'Complete sign in with a TOTP or recovery code (requires the MFA token from sign in)', access: 'public', body: twoFactorSignInSchema },
+  { name: 'profile', method: 'get', path: '/profile', summary: 'Get current admin profile', access: 'admin' },
+  { name: 'verify', method: 'get', path: '/verify', summary: 'Verify JWT token', access: 'admin' },
+  { name: 'changePassword', method: 'put', path: '/password', summary: 'Change the password of the current admin', access: 'admin', body: changePasswordSchema },
+  { name: 'forgotPassword', method: 'post', path: '/forgot-password', summary: 'Request a password reset email', access: 'public', body: forgotPasswordSchema },
+  { name: 'resetPassword', method: 'post', path: '/reset-password', summary: 'Reset password using a reset token', access: 'public', body: resetPasswordSchema },
+  { name: 'refresh', method: 'post', path: '/refresh', summary: 'Rotate refresh token and issue a new access token (requires refresh token cookie)', access: 'public' },
+  { name: 'sessions', method: 'get', path: '/sessions', summary: 'List the active sessions of the current admin', access: 'admin' },
+  { name: 'revokeSession', method: 'delete', path: '/sessions/:id', summary: 'Revoke one of the sessions of the current admin', access: 'admin' },
+  { name: 'logout', method: 'post', path: '/logout', summary: 'Admin logout (revokes the current session)', access: 'public' },
+  { name: 'logoutAll', method: 'post', path: '/logout-all', summary: 'Log out from every device', access: 'admin' },
+  { name: 'twoFactorStatus', method: 'get', path: '/2fa', summary: 'Get the two-factor status of the current admin', access: 'admin' },
+  { name: 'twoFactorSetup', method: 'post', path: '/2fa/setup', summary: 'Start two-factor enrollment (returns secret and otpauth URI)', access: 'admin' },
+  { name: 'twoFactorConfirm', method: 'post', path: '/2fa/confirm', summary: 'Confirm enrollment with a code and receive recovery codes', access: 'admin', body: twoFactorCodeSchema },
+  { name: 'twoFactorRecoveryCodes', method: 'post', path: '/2fa/recovery-codes', summary: 'Regenerate recovery codes', access: 'admin', body: twoFactorCodeSchema },
+  { name: 'twoFactorDisable', method: 'post', path: '/2fa/disable', summary: 'Disable two-factor authentication', access: 'admin', body: twoFactorDisableSchema }
+];
 
 export default router;
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { GalleryCategoryController } from '../controllers/galleryCategoryController';
+import { authenticateAdmin, authorizeRole } from '../middlewares/auth';
+import { validateIdParam } from '../middlewares/validation';
+import { galleryCategoryDeleteQuerySchema, galleryCategorySchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
+
+/**
+ * Gallery category routes
+ */
+const router = Router();
+
+/**
+ * @route   GET /api/gallery/categories
+ * @desc    Get active gallery categories with image counts
+ * @access  Public
+ */
+router.get('/', GalleryCategoryController.getCategories);
+
+/**
+ * @route   GET /api/gallery/categories/all
+ * @desc    Get all gallery categories, including inactive ones
+ * @access  Private (Super admin only)
+ */
+router.get('/all', authenticateAdmin, authorizeRole(['super_admin']), GalleryCategoryController.getAllCategories);
+
+/**
+ * @route   POST /api/gallery/categories
+ * @desc    Create a gallery category
+ * @access  Private (Super admin only)
+ */
+router.post('/', authenticateAdmin, authorizeRole(['super_admin']), GalleryCategoryController.createCategory);
+
+/**
+ * @route   PUT /api/gallery/categories/:id
+ * @desc    Update (rename, reorder, activate/deactivate) a gallery category
+ * @access  Private (Super admin only)
+ */
+router.put('/:id', authenticateAdmin, authorizeRole(['super_admin']), validateIdParam(), GalleryCategoryController.updateCategory);
+
+/**
+ * @route   DELETE /api/gallery/categories/:id?reassignTo=
+ * @desc    Delete a gallery category, moving its images to another category
+ * @access  Private (Super admin only)
+ */
+router.delete('/:id', authenticateAdmin, authorizeRole(['super_admin']), validateIdParam(), GalleryCategoryController.deleteCategory);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get active gallery categories with image counts', access: 'public' },
+  { name: 'getAllIncludingInactive', method: 'get', path: '/all', summary: 'Get all gallery categories, including inactive ones', access: 'super_admin' },
+  { name: 'create', method: 'post', path: '/', summary: 'Create a gallery category', access: 'super_admin', body: galleryCategorySchema, status: 201 },
+  { name: 'update', method: 'put', path: '/:id', summary: 'Update (rename, reorder, activate/deactivate) a gallery category', access: 'super_admin', body: galleryCategorySchema },
+  { name: 'delete', method: 'delete', path: '/:id', summary: 'Delete a gallery category, moving its images to another category', access: 'super_admin', query: galleryCategoryDeleteQuerySchema }
+];
+
+export default router;
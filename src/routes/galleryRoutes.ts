@@ -1,14 +1,77 @@
-import express from 'express';
-import { uploadImageToGallery, getAllGalleryImages, deleteGalleryImage, updateGalleryImage } from '../controllers/galleryController'; // ✅ THIS LINE
+import { Router } from 'express';
+import { GalleryController } from '../controllers/galleryController';
 import { authenticateAdmin } from '../middlewares/auth';
-import { requiredCloudinaryUpload } from '../middlewares/cloudinaryUpload';
+import { optionalFileUpload, requiredFileUpload, requiredGalleryImagesUpload } from '../middlewares/fileUpload';
+import { uploadRateLimiter } from '../middlewares/rateLimiter';
+import { validateIdParam } from '../middlewares/validation';
+import { galleryBulkUploadSchema, galleryImageSchema, galleryImageUpdateSchema, galleryQuerySchema, trashQuerySchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
 
-const router = express.Router();
+/**
+ * Gallery routes
+ */
+const router = Router();
 
-router.post('/', authenticateAdmin, requiredCloudinaryUpload, uploadImageToGallery);
-router.get('/', getAllGalleryImages);
-router.delete('/:id', authenticateAdmin, deleteGalleryImage);
-router.put('/:id', authenticateAdmin, updateGalleryImage);
+/**
+ * @route   POST /api/gallery
+ * @desc    Upload an image to the gallery
+ * @access  Private (Admin only)
+ */
+router.post('/', authenticateAdmin, uploadRateLimiter, requiredFileUpload, GalleryController.uploadImage);
 
+/**
+ * @route   POST /api/gallery/bulk
+ * @desc    Upload several images with shared metadata and a per-file report
+ * @access  Private (Admin only)
+ */
+router.post('/bulk', authenticateAdmin, uploadRateLimiter, requiredGalleryImagesUpload, GalleryController.bulkUpload);
+
+/**
+ * @route   GET /api/gallery
+ * @desc    Get gallery images with filters (category, album, date, title search) and cursor pagination
+ * @access  Public
+ */
+router.get('/', GalleryController.getImages);
+
+/**
+ * @route   GET /api/gallery/trash
+ * @desc    Get images in the gallery trash
+ * @access  Private (Admin only)
+ */
+router.get('/trash', authenticateAdmin, GalleryController.getTrash);
+
+/**
+ * @route   POST /api/gallery/:id/restore
+ * @desc    Restore an image from the gallery trash
+ * @access  Private (Admin only)
+ */
+router.post('/:id/restore', authenticateAdmin, validateIdParam(), GalleryController.restoreImage);
+
+/**
+ * @route   DELETE /api/gallery/:id
+ * @desc    Move an image to the gallery trash
+ * @access  Private (Admin only)
+ */
+router.delete('/:id', authenticateAdmin, validateIdParam(), GalleryController.deleteImage);
+
+/**
+ * @route   PUT /api/gallery/:id
+ * @desc    Update an image's details, optionally replacing the image file
+ * @access  Private (Admin only)
+ */
+router.put('/:id', authenticateAdmin, validateIdParam(), uploadRateLimiter, optionalFileUpload, GalleryController.updateImage);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'uploadImage', method: 'post', path: '/', summary: 'Upload an image to the gallery', access: 'admin', body: galleryImageSchema, upload: { field: 'attachment', required: true }, status: 201 },
+  { name: 'bulkUpload', method: 'post', path: '/bulk', summary: 'Upload several images with shared metadata and a per-file report (207 when some files fail)', access: 'admin', body: galleryBulkUploadSchema, upload: { field: 'images', multiple: true, required: true }, status: 201 },
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get gallery images with filters (category, album, date, title search) and cursor pagination', access: 'public', query: galleryQuerySchema },
+  { name: 'getTrash', method: 'get', path: '/trash', summary: 'Get images in the gallery trash', access: 'admin', query: trashQuerySchema },
+  { name: 'restore', method: 'post', path: '/:id/restore', summary: 'Restore an image from the gallery trash', access: 'admin' },
+  { name: 'delete', method: 'delete', path: '/:id', summary: 'Move an image to the gallery trash', access: 'admin' },
+  { name: 'update', method: 'put', path: '/:id', summary: 'Update the details of an image, optionally replacing the image file', access: 'admin', body: galleryImageUpdateSchema, upload: { field: 'attachment' } }
+];
 
 export default router;
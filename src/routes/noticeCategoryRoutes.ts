@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { NoticeCategoryController } from '../controllers/noticeCategoryController';
+import { authenticateAdmin } from '../middlewares/auth';
+import { validateIdParam } from '../middlewares/validation';
+import { noticeCategorySchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
+
+/**
+ * Notice category routes
+ */
+const router = Router();
+
+/**
+ * @route   GET /api/notices/categories
+ * @desc    Get all notice categories
+ * @access  Public
+ */
+router.get('/', NoticeCategoryController.getCategories);
+
+/**
+ * @route   POST /api/notices/categories
+ * @desc    Create a notice category
+ * @access  Private (Admin only)
+ */
+router.post('/', authenticateAdmin, NoticeCategoryController.createCategory);
+
+/**
+ * @route   PUT /api/notices/categories/:id
+ * @desc    Update a notice category
+ * @access  Private (Admin only)
+ */
+router.put('/:id', authenticateAdmin, validateIdParam(), NoticeCategoryController.updateCategory);
+
+/**
+ * @route   DELETE /api/notices/categories/:id
+ * @desc    Delete an unused notice category
+ * @access  Private (Admin only)
+ */
+router.delete('/:id', authenticateAdmin, validateIdParam(), NoticeCategoryController.deleteCategory);
+
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get all notice categories', access: 'public' },
+  { name: 'create', method: 'post', path: '/', summary: 'Create a notice category', access: 'admin', body: noticeCategorySchema, status: 201 },
+  { name: 'update', method: 'put', path: '/:id', summary: 'Update a notice category', access: 'admin', body: noticeCategorySchema },
+  { name: 'delete', method: 'delete', path: '/:id', summary: 'Delete an unused notice category', access: 'admin' }
+];
+
+export default router;
@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { NoticeController } from '../controllers/noticeController';
+import { NoticeRevisionController } from '../controllers/noticeRevisionController';
+import { NoticeAttachmentController } from '../controllers/noticeAttachmentController';
 import { authenticateAdmin } from '../middlewares/auth';
-import { optionalCloudinaryUpload } from '../middlewares/cloudinaryUpload';
+import { optionalNoticeAttachmentsUpload } from '../middlewares/fileUpload';
+import { uploadRateLimiter } from '../middlewares/rateLimiter';
+import { validateIdParam } from '../middlewares/validation';
+import { adminNoticeQuerySchema, attachmentCaptionSchema, attachmentOrderSchema, attachmentUploadSchema, highlightsQuerySchema, noticeSchema, pinSchema, queryParamsSchema, revisionDiffQuerySchema, trashQuerySchema } from '../utils/validators';
+import { RouteDoc } from '../utils/openapi';
 
 /**
  * Notice management routes
@@ -16,41 +22,219 @@ const router = Router();
 router.post(
   '/',
   authenticateAdmin,
-  optionalCloudinaryUpload,
+  uploadRateLimiter,
+  optionalNoticeAttachmentsUpload,
   NoticeController.createNotice
 );
 
 /**
  * @route   GET /api/notices
- * @desc    Get all notices with pagination
+ * @desc    Get published notices with search, filters (date, attachment, category, tag, audience), sorting and pagination
  * @access  Public
  */
 router.get('/', NoticeController.getAllNotices);
 
+/**
+ * @route   GET /api/notices/highlights
+ * @desc    Get pinned and important/urgent notices for the homepage ticker
+ * @access  Public
+ */
+router.get('/highlights', NoticeController.getHighlights);
+
+/**
+ * @route   GET /api/notices/facets
+ * @desc    Get counts of published notices per category, tag, department and year
+ * @access  Public
+ */
+router.get('/facets', NoticeController.getFacets);
+
+/**
+ * @route   GET /api/notices/admin
+ * @desc    Get all notices with their status (?status=published|unpublished|upcoming|expired)
+ * @access  Private (Admin only)
+ */
+router.get('/admin', authenticateAdmin, NoticeController.getAdminNotices);
+
+/**
+ * @route   GET /api/notices/trash
+ * @desc    Get notices in the trash
+ * @access  Private (Admin only)
+ */
+router.get('/trash', authenticateAdmin, NoticeController.getTrashedNotices);
+
+/**
+ * @route   POST /api/notices/:id/restore
+ * @desc    Restore a notice from the trash
+ * @access  Private (Admin only)
+ */
+router.post('/:id/restore', authenticateAdmin, validateIdParam(), NoticeController.restoreNotice);
+
+/**
+ * @route   GET /api/notices/:id/revisions
+ * @desc    List saved revisions of a notice
+ * @access  Private (Admin only)
+ */
+router.get('/:id/revisions', authenticateAdmin, validateIdParam(), NoticeRevisionController.getRevisions);
+
+/**
+ * @route   GET /api/notices/:id/revisions/diff
+ * @desc    Field-level diff between two revisions (?from=&to=)
+ * @access  Private (Admin only)
+ */
+router.get('/:id/revisions/diff', authenticateAdmin, validateIdParam(), NoticeRevisionController.diffRevisions);
+
+/**
+ * @route   GET /api/notices/:id/revisions/:rev
+ * @desc    Get a single revision of a notice
+ * @access  Private (Admin only)
+ */
+router.get('/:id/revisions/:rev', authenticateAdmin, validateIdParam(), NoticeRevisionController.getRevision);
+
+/**
+ * @route   POST /api/notices/:id/revisions/:rev/restore
+ * @desc    Restore a notice to an earlier revision
+ * @access  Private (Admin only)
+ */
+router.post(
+  '/:id/revisions/:rev/restore',
+  authenticateAdmin,
+  validateIdParam(),
+  NoticeRevisionController.restoreRevision
+);
+
+/**
+ * @route   POST /api/notices/:id/attachments
+ * @desc    Add attachments to a notice (field 'attachments', optional 'captions')
+ * @access  Private (Admin only)
+ */
+router.post(
+  '/:id/attachments',
+  authenticateAdmin,
+  validateIdParam(),
+  uploadRateLimiter,
+  optionalNoticeAttachmentsUpload,
+  NoticeAttachmentController.addAttachments
+);
+
+/**
+ * @route   PATCH /api/notices/:id/attachments/order
+ * @desc    Reorder the attachments of a notice
+ * @access  Private (Admin only)
+ */
+router.patch(
+  '/:id/attachments/order',
+  authenticateAdmin,
+  validateIdParam(),
+  NoticeAttachmentController.reorderAttachments
+);
+
+/**
+ * @route   PATCH /api/notices/:id/attachments/:attachmentId
+ * @desc    Update the caption of an attachment
+ * @access  Private (Admin only)
+ */
+router.patch(
+  '/:id/attachments/:attachmentId',
+  authenticateAdmin,
+  validateIdParam(),
+  validateIdParam('attachmentId'),
+  NoticeAttachmentController.updateAttachmentCaption
+);
+
+/**
+ * @route   DELETE /api/notices/:id/attachments/:attachmentId
+ * @desc    Remove an attachment from a notice
+ * @access  Private (Admin only)
+ */
+router.delete(
+  '/:id/attachments/:attachmentId',
+  authenticateAdmin,
+  validateIdParam(),
+  validateIdParam('attachmentId'),
+  NoticeAttachmentController.removeAttachment
+);
+
 /**
  * @route   GET /api/notices/:id
- * @desc    Get a single notice by ID
+ * @desc    Get a single published notice by ID
  * @access  Public
  */
 router.get('/:id', NoticeController.getNoticeById);
 
 /**
  * @route   PUT /api/notices/:id
- * @desc    Update a notice
+ * @desc    Update a notice (uploaded attachments replace the current list)
  * @access  Private (Admin only)
  */
 router.put(
   '/:id',
   authenticateAdmin,
-  optionalCloudinaryUpload,
+  uploadRateLimiter,
+  optionalNoticeAttachmentsUpload,
   NoticeController.updateNotice
 );
 
+/**
+ * @route   PATCH /api/notices/:id/publish
+ * @desc    Publish a notice
+ * @access  Private (Admin only)
+ */
+router.patch('/:id/publish', authenticateAdmin, validateIdParam(), NoticeController.publishNotice);
+
+/**
+ * @route   PATCH /api/notices/:id/unpublish
+ * @desc    Unpublish a notice
+ * @access  Private (Admin only)
+ */
+router.patch('/:id/unpublish', authenticateAdmin, validateIdParam(), NoticeController.unpublishNotice);
+
+/**
+ * @route   PATCH /api/notices/:id/pin
+ * @desc    Pin a notice to the top of listings (optional pinnedUntil)
+ * @access  Private (Admin only)
+ */
+router.patch('/:id/pin', authenticateAdmin, validateIdParam(), NoticeController.pinNotice);
+
+/**
+ * @route   PATCH /api/notices/:id/unpin
+ * @desc    Unpin a notice
+ * @access  Private (Admin only)
+ */
+router.patch('/:id/unpin', authenticateAdmin, validateIdParam(), NoticeController.unpinNotice);
+
 /**
  * @route   DELETE /api/notices/:id
- * @desc    Delete a notice
+ * @desc    Move a notice to the trash
  * @access  Private (Admin only)
  */
 router.delete('/:id', authenticateAdmin, NoticeController.deleteNotice);
 
+/**
+ * OpenAPI metadata for the routes above
+ */
+export const routeDocs: RouteDoc[] = [
+  { name: 'create', method: 'post', path: '/', summary: 'Create a new notice', access: 'admin', body: noticeSchema, upload: { field: 'attachments', multiple: true }, status: 201 },
+  { name: 'getAll', method: 'get', path: '/', summary: 'Get published notices with search, filters (date, attachment, category, tag, audience), sorting and pagination', access: 'public', query: queryParamsSchema },
+  { name: 'getHighlights', method: 'get', path: '/highlights', summary: 'Get pinned and important/urgent notices for the homepage ticker', access: 'public', query: highlightsQuerySchema },
+  { name: 'getFacets', method: 'get', path: '/facets', summary: 'Get counts of published notices per category, tag, department and year', access: 'public' },
+  { name: 'getAllAdmin', method: 'get', path: '/admin', summary: 'Get all notices with their status', access: 'admin', query: adminNoticeQuerySchema },
+  { name: 'getTrash', method: 'get', path: '/trash', summary: 'Get notices in the trash', access: 'admin', query: trashQuerySchema },
+  { name: 'restore', method: 'post', path: '/:id/restore', summary: 'Restore a notice from the trash', access: 'admin' },
+  { name: 'getRevisions', method: 'get', path: '/:id/revisions', summary: 'List saved revisions of a notice', access: 'admin' },
+  { name: 'diffRevisions', method: 'get', path: '/:id/revisions/diff', summary: 'Field-level diff between two revisions', access: 'admin', query: revisionDiffQuerySchema },
+  { name: 'getRevision', method: 'get', path: '/:id/revisions/:rev', summary: 'Get a single revision of a notice', access: 'admin' },
+  { name: 'restoreRevision', method: 'post', path: '/:id/revisions/:rev/restore', summary: 'Restore a notice to an earlier revision', access: 'admin' },
+  { name: 'addAttachments', method: 'post', path: '/:id/attachments', summary: 'Add attachments to a notice', access: 'admin', body: attachmentUploadSchema, upload: { field: 'attachments', multiple: true, required: true } },
+  { name: 'reorderAttachments', method: 'patch', path: '/:id/attachments/order', summary: 'Reorder the attachments of a notice', access: 'admin', body: attachmentOrderSchema },
+  { name: 'updateAttachmentCaption', method: 'patch', path: '/:id/attachments/:attachmentId', summary: 'Update the caption of an attachment', access: 'admin', body: attachmentCaptionSchema },
+  { name: 'removeAttachment', method: 'delete', path: '/:id/attachments/:attachmentId', summary: 'Remove an attachment from a notice', access: 'admin' },
+  { name: 'getById', method: 'get', path: '/:id', summary: 'Get a single published notice by ID', access: 'public' },
+  { name: 'update', method: 'put', path: '/:id', summary: 'Update a notice (uploaded attachments replace the current list)', access: 'admin', body: noticeSchema, upload: { field: 'attachments', multiple: true } },
+  { name: 'publish', method: 'patch', path: '/:id/publish', summary: 'Publish a notice', access: 'admin' },
+  { name: 'unpublish', method: 'patch', path: '/:id/unpublish', summary: 'Unpublish a notice', access: 'admin' },
+  { name: 'pin', method: 'patch', path: '/:id/pin', summary: 'Pin a notice to the top of listings (optional pinnedUntil)', access: 'admin', body: pinSchema },
+  { name: 'unpin', method: 'patch', path: '/:id/unpin', summary: 'Unpin a notice', access: 'admin' },
+  { name: 'delete', method: 'delete', path: '/:id', summary: 'Move a notice to the trash', access: 'admin' }
+];
+
 export default router;
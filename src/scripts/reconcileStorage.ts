@@ -0,0 +1,35 @@
+import { closeDatabase, connectDatabase } from '../config/database';
+import { validateEnvironment } from '../config/environment';
+import { reconcileStorage } from '../jobs/storageReconcile';
+
+/**
+ * Compare stored files with database references and print the report.
+ *
+ * Usage: npm run storage:reconcile [-- --fix]
+ * Without --fix nothing is changed (dry run).
+ */
+const main = async (): Promise<void> => {
+  const fix = process.argv.includes('--fix');
+
+  validateEnvironment();
+  await connectDatabase();
+
+  try {
+    const report = await reconcileStorage({ fix });
+
+    console.log(JSON.stringify(report, null, 2));
+    console.log(
+      `\n${report.dryRun ? 'Dry run: ' : ''}${report.orphans.length} orphaned file(s), ` +
+      `${report.dangling.length} dangling reference(s), ${report.skippedRecent} recent file(s) and ` +
+      `${report.skippedRecentReferences} recently changed reference(s) skipped` +
+      (report.dryRun ? '. Re-run with --fix to clean up.' : `. Deleted ${report.deletedOrphans}, removed ${report.removedReferences}.`)
+    );
+  } finally {
+    await closeDatabase();
+  }
+};
+
+main().catch((error) => {
+  console.error('❌ Storage reconciliation failed:', error);
+  process.exit(1);
+});
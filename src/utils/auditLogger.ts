@@ -0,0 +1,42 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { AuditLog, AuditEntityType } from '../models/AuditLog';
+import { diffObjects, toPlainSnapshot } from './diff';
+
+/**
+ * Details of an auditable action
+ */
+export interface AuditEntry {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: Types.ObjectId | string | null | undefined;
+  before?: unknown; // State before the change: take toPlainSnapshot(doc) before mutating doc
+  after?: unknown; // State after the change (document or snapshot)
+  metadata?: Record<string, unknown> | undefined;
+  // Defaults to the authenticated admin on the request; pass null for system actions
+  actor?: { adminId: Types.ObjectId | string; email: string } | null | undefined;
+}
+
+/**
+ * Record an entry in the audit log.
+ * Failures are logged and swallowed so auditing never breaks the request itself.
+ */
+export const recordAudit = async (req: Request | null, entry: AuditEntry): Promise<void> => {
+  try {
+    const actor = entry.actor !== undefined ? entry.actor : (req as any)?.admin || null;
+
+    await AuditLog.create({
+      actor: actor?.adminId || null,
+      actorEmail: actor?.email || null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId || null,
+      changes: diffObjects(toPlainSnapshot(entry.before), toPlainSnapshot(entry.after)),
+      metadata: entry.metadata || {},
+      ipAddress: req?.ip || '',
+      userAgent: req?.get('user-agent') || ''
+    });
+  } catch (error) {
+    console.error(`Audit log error (${entry.action}):`, error);
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * Field-level diff helpers
+ */
+
+/**
+ * A single changed field
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Convert a mongoose document (or any value) into plain JSON data.
+ * Runs the schema's toJSON transform, so hidden fields such as passwords are dropped,
+ * and turns ObjectIds and Dates into strings so values compare reliably.
+ */
+export const toPlainSnapshot = (value: unknown): Record<string, unknown> | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify(value));
+};
+
+/**
+ * Compare two snapshots field by field (top-level fields only; nested
+ * objects and arrays are compared as a whole)
+ */
+export const diffObjects = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  ignoreFields: string[] = ['_id', 'id', '__v', 'createdAt', 'updatedAt']
+): FieldChange[] => {
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {})
+  ]);
+
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    if (ignoreFields.includes(field)) {
+      continue;
+    }
+
+    const beforeValue = before?.[field] ?? null;
+    const afterValue = after?.[field] ?? null;
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return changes;
+};
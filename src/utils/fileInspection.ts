@@ -0,0 +1,162 @@
+import path from 'path';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { AppError } from '../middlewares/errorHandler';
+import { scanForViruses } from './virusScanner';
+
+/**
+ * Content signature and accepted extensions for each verifiable MIME type
+ */
+interface FileSignature {
+  matches: (buffer: Buffer) => boolean;
+  extensions: string[];
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset: number = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const JPEG: FileSignature = { matches: buffer => startsWith(buffer, [0xff, 0xd8, 0xff]), extensions: ['.jpg', '.jpeg'] };
+
+/**
+ * File types whose content can be checked. Uploads of any other type are rejected,
+ * so add an entry here before allowing a new type in ALLOWED_FILE_TYPES.
+ */
+const FILE_SIGNATURES: Record<string, FileSignature> = {
+  'image/jpeg': JPEG,
+  'image/jpg': JPEG,
+  'image/png': {
+    matches: buffer => startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    extensions: ['.png']
+  },
+  'image/gif': {
+    matches: buffer => startsWith(buffer, [0x47, 0x49, 0x46, 0x38]),
+    extensions: ['.gif']
+  },
+  'image/webp': {
+    matches: buffer => startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8),
+    extensions: ['.webp']
+  },
+  'application/pdf': {
+    matches: buffer => startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d]), // %PDF-
+    extensions: ['.pdf']
+  },
+  'application/msword': { matches: buffer => startsWith(buffer, OLE), extensions: ['.doc'] },
+  'application/vnd.ms-excel': { matches: buffer => startsWith(buffer, OLE), extensions: ['.xls'] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    matches: buffer => startsWith(buffer, ZIP),
+    extensions: ['.docx']
+  },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+    matches: buffer => startsWith(buffer, ZIP),
+    extensions: ['.xlsx']
+  }
+};
+
+/**
+ * PDF name tokens that run scripts or launch programs when a document is opened
+ */
+const PDF_ACTIVE_CONTENT = /\/(JavaScript|JS|Launch)(?![A-Za-z0-9])/;
+
+/**
+ * Check a PDF for scripts. Object definitions live outside streams or inside
+ * compressed object streams (/ObjStm); other streams hold page and image data,
+ * which is skipped. PDF names may hex-escape characters (/J#61vaScript), so
+ * those are decoded first.
+ */
+const pdfHasActiveContent = (buffer: Buffer): boolean => {
+  const hasActiveContent = (text: string) => PDF_ACTIVE_CONTENT.test(
+    text.replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  );
+
+  const raw = buffer.toString('latin1');
+  const streamPattern = /(?<!end)stream\r?\n/g;
+  let outsideStreams = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(raw)) !== null) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+
+    outsideStreams += raw.slice(cursor, match.index);
+    cursor = end;
+
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (dictionary.includes('/ObjStm')) {
+      try {
+        if (hasActiveContent(zlib.inflateSync(buffer.subarray(start, end)).toString('latin1'))) {
+          return true;
+        }
+      } catch {
+        // Not Flate-encoded (or truncated); nothing more to check
+      }
+    }
+    streamPattern.lastIndex = end;
+  }
+  outsideStreams += raw.slice(cursor);
+
+  return hasActiveContent(outsideStreams);
+};
+
+/**
+ * Re-encode an image without its metadata (EXIF, GPS, comments), applying the
+ * EXIF orientation first so the picture still displays the right way up
+ */
+const stripImageMetadata = async (buffer: Buffer): Promise<Buffer> => {
+  return sharp(buffer, { animated: true }).rotate().toBuffer();
+};
+
+/**
+ * Verify an uploaded file before it is stored:
+ * - its content must match both the declared MIME type and the file extension
+ * - PDFs must not contain JavaScript or launch actions
+ * - the virus scanner must report it clean
+ * Image metadata is stripped in place (file.buffer and file.size are updated).
+ *
+ * Throws an AppError (400 for rejected files, 503 if scanning is unavailable).
+ */
+export const inspectUploadedFile = async (file: Express.Multer.File): Promise<void> => {
+  const signature = FILE_SIGNATURES[file.mimetype];
+  if (!signature) {
+    throw new AppError(`${file.originalname}: file type ${file.mimetype} cannot be verified`, 400);
+  }
+
+  if (!signature.extensions.includes(path.extname(file.originalname).toLowerCase())) {
+    throw new AppError(
+      `${file.originalname}: extension does not match file type ${file.mimetype} (expected ${signature.extensions.join(', ')})`,
+      400
+    );
+  }
+
+  if (!signature.matches(file.buffer)) {
+    throw new AppError(`${file.originalname}: file content does not match type ${file.mimetype}`, 400);
+  }
+
+  if (file.mimetype === 'application/pdf' && pdfHasActiveContent(file.buffer)) {
+    throw new AppError(`${file.originalname}: PDFs with embedded JavaScript or launch actions are not allowed`, 400);
+  }
+
+  let result;
+  try {
+    result = await scanForViruses(file.buffer);
+  } catch (error) {
+    console.error('Virus scan error:', error);
+    throw new AppError('Virus scanning is unavailable, please try again later', 503);
+  }
+  if (!result.clean) {
+    throw new AppError(`${file.originalname}: file rejected by virus scan (${result.signature ?? 'threat detected'})`, 400);
+  }
+
+  if (file.mimetype.startsWith('image/')) {
+    try {
+      file.buffer = await stripImageMetadata(file.buffer);
+      file.size = file.buffer.length;
+    } catch {
+      throw new AppError(`${file.originalname}: image could not be processed`, 400);
+    }
+  }
+};
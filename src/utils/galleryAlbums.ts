@@ -0,0 +1,40 @@
+import { Types } from 'mongoose';
+import Gallery from '../models/gallery';
+import { Album } from '../models/Album';
+
+/**
+ * Move gallery images to the end of an album, in the given order. Images
+ * leaving another album stop being that album's cover.
+ */
+export const appendImagesToAlbum = async (
+  albumId: Types.ObjectId | string,
+  imageIds: (Types.ObjectId | string)[]
+): Promise<void> => {
+  // Trashed images keep their place so they return to it when restored
+  const [last] = await Gallery.find({ album: albumId })
+    .sort({ albumPosition: -1 })
+    .limit(1)
+    .select('albumPosition')
+    .setOptions({ withDeleted: true });
+  const start = last ? last.albumPosition + 1 : 0;
+
+  await Gallery.bulkWrite(imageIds.map((imageId, index) => ({
+    updateOne: {
+      filter: { _id: imageId },
+      update: { album: albumId, albumPosition: start + index }
+    }
+  })));
+
+  await Album.updateMany(
+    { _id: { $ne: albumId }, coverImage: { $in: imageIds } },
+    { coverImage: null }
+  );
+};
+
+/**
+ * Take an image out of its album, clearing the album cover if it was the cover
+ */
+export const removeImageFromAlbum = async (imageId: Types.ObjectId | string): Promise<void> => {
+  await Gallery.updateOne({ _id: imageId }, { album: null, albumPosition: 0 }).setOptions({ withDeleted: true });
+  await Album.updateMany({ coverImage: imageId }, { coverImage: null });
+};
@@ -0,0 +1,126 @@
+import path from 'path';
+import { processGalleryImage, EncodedImage } from './imageProcessing';
+import { STORAGE_FOLDERS, StoredFile, getStorage } from './storage';
+
+/**
+ * Stored rendition of a gallery image
+ */
+export interface GalleryImageVariant {
+  url: string;
+  publicId: string;
+  format: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Image details saved on a gallery document
+ */
+export interface GalleryImageData extends GalleryImageVariant {
+  variants: GalleryImageVariant[];
+  thumbnail: GalleryImageVariant;
+  placeholder: string;
+}
+
+/**
+ * Store one encoded rendition under a name describing it (e.g. photo-960w.webp)
+ */
+const storeRendition = async (image: EncodedImage, baseName: string, suffix: string): Promise<GalleryImageVariant> => {
+  const stored: StoredFile = await getStorage().upload({
+    buffer: image.buffer,
+    originalName: `${baseName}${suffix}.${image.format === 'jpeg' ? 'jpg' : image.format}`,
+    mimeType: `image/${image.format}`,
+    folder: STORAGE_FOLDERS.gallery
+  });
+
+  return {
+    url: stored.url,
+    publicId: stored.publicId,
+    format: image.format,
+    size: image.buffer.length,
+    width: image.width,
+    height: image.height
+  };
+};
+
+/**
+ * Process an uploaded image and store the original with all its renditions.
+ * If any upload fails, the files already stored are deleted.
+ */
+export const storeGalleryImage = async (file: Express.Multer.File): Promise<GalleryImageData> => {
+  const processed = await processGalleryImage(file.buffer);
+  const baseName = path.basename(file.originalname, path.extname(file.originalname));
+  const stored: GalleryImageVariant[] = [];
+
+  const store = async (image: EncodedImage, suffix: string) => {
+    const rendition = await storeRendition(image, baseName, suffix);
+    stored.push(rendition);
+    return rendition;
+  };
+
+  try {
+    const original = await store(processed.original, '');
+    const variants: GalleryImageVariant[] = [];
+    for (const variant of processed.variants) {
+      variants.push(await store(variant, `-${variant.width}w`));
+    }
+    const thumbnail = await store(processed.thumbnail, '-thumb');
+
+    return { ...original, variants, thumbnail, placeholder: processed.placeholder };
+  } catch (error) {
+    await deleteStoredFiles(stored.map(rendition => rendition.publicId));
+    throw error;
+  }
+};
+
+/**
+ * Storage public IDs of a gallery image and all its renditions
+ */
+export const getGalleryImagePublicIds = (image: {
+  publicId?: string | null;
+  variants?: { publicId: string }[] | null;
+  thumbnail?: { publicId: string } | null;
+} | null | undefined): string[] => {
+  if (!image) return [];
+
+  return [
+    ...(image.publicId ? [image.publicId] : []),
+    ...(image.variants ?? []).map(variant => variant.publicId),
+    ...(image.thumbnail ? [image.thumbnail.publicId] : [])
+  ];
+};
+
+/**
+ * Delete stored files by public ID
+ */
+export const deleteStoredFiles = async (publicIds: string[]): Promise<void> => {
+  for (const publicId of publicIds) {
+    await getStorage().delete(publicId);
+  }
+};
+
+/**
+ * Build `srcset` strings per format from an image's variants, e.g.
+ * { webp: 'a-480w.webp 480w, a-960w.webp 960w' }. Images stored before variants
+ * existed fall back to the original.
+ */
+export const buildSrcSet = (image: {
+  url: string;
+  format?: string | null;
+  width?: number | null;
+  variants?: { url: string; format: string; width: number }[] | null;
+}): Record<string, string> => {
+  const srcset: Record<string, string> = {};
+
+  for (const variant of image.variants ?? []) {
+    const entry = `${variant.url} ${variant.width}w`;
+    srcset[variant.format] = srcset[variant.format] ? `${srcset[variant.format]}, ${entry}` : entry;
+  }
+
+  if (image.format && image.width && !srcset[image.format]) {
+    srcset[image.format] = `${image.url} ${image.width}w`;
+  }
+
+  return srcset;
+};
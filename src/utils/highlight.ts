@@ -0,0 +1,81 @@
+/**
+ * Search term parsing and snippet highlighting for text search results
+ */
+
+/**
+ * Extract the terms a MongoDB $text search matches on: quoted phrases and
+ * single words, skipping negated (-word) terms
+ */
+export const parseSearchTerms = (search: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(search)) !== null) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4] ?? '').trim();
+    if (!negated && term) {
+      terms.push(term);
+    }
+  }
+
+  return terms;
+};
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Escape text for use inside a regular expression
+ */
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build a snippet of `text` around the first matching term, HTML-escaped, with
+ * every match wrapped in <mark> tags. Returns null when no term matches.
+ */
+export const highlightSnippet = (text: string, terms: string[], maxLength: number = 160): string | null => {
+  if (!text || terms.length === 0) {
+    return null;
+  }
+
+  // Match whole terms and their word-stem variants (e.g. "exam" also marks "exams")
+  const pattern = new RegExp(
+    `\\b(${terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|')})\\w*`,
+    'gi'
+  );
+
+  const firstMatch = pattern.exec(text);
+  if (!firstMatch) {
+    return null;
+  }
+  pattern.lastIndex = 0;
+
+  // Center the snippet on the first match
+  let start = 0;
+  let end = text.length;
+  if (text.length > maxLength) {
+    start = Math.max(0, firstMatch.index - Math.floor((maxLength - firstMatch[0].length) / 2));
+    end = Math.min(text.length, start + maxLength);
+    start = Math.max(0, end - maxLength);
+  }
+
+  let snippet = '';
+  let cursor = start;
+  for (const match of text.slice(start, end).matchAll(pattern)) {
+    const matchStart = start + (match.index ?? 0);
+    snippet += escapeHtml(text.slice(cursor, matchStart)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    cursor = matchStart + match[0].length;
+  }
+  snippet += escapeHtml(text.slice(cursor, end));
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
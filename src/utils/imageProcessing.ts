@@ -0,0 +1,97 @@
+import sharp from 'sharp';
+import { config } from '../config/environment';
+
+/**
+ * An encoded image produced by the pipeline
+ */
+export interface EncodedImage {
+  buffer: Buffer;
+  format: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Output of processing an uploaded gallery image
+ */
+export interface ProcessedImage {
+  original: EncodedImage; // Upright, downscaled to GALLERY_MAX_DIMENSION, in the uploaded format
+  variants: EncodedImage[]; // One per configured width and modern format
+  thumbnail: EncodedImage; // Square crop for grids
+  placeholder: string; // Tiny blurred data URI shown while the image loads (LQIP)
+}
+
+const ENCODE_OPTIONS: Record<string, Record<string, unknown>> = {
+  jpeg: { quality: 85, mozjpeg: true },
+  png: { compressionLevel: 9 },
+  webp: { quality: 80 },
+  avif: { quality: 55, effort: 2 } // Default effort is too slow for request-time encoding
+};
+
+/**
+ * Encode a sharp pipeline and report the resulting size
+ */
+const encode = async (pipeline: sharp.Sharp, format: string): Promise<EncodedImage> => {
+  const { data, info } = await pipeline
+    .toFormat(format as keyof sharp.FormatEnum, ENCODE_OPTIONS[format] ?? {})
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, format, width: info.width, height: info.height };
+};
+
+/**
+ * Auto-rotate, downscale and derive responsive variants, a thumbnail and a
+ * placeholder from an uploaded image
+ */
+export const processGalleryImage = async (buffer: Buffer): Promise<ProcessedImage> => {
+  const { format } = await sharp(buffer).metadata();
+  const originalFormat = format && ['jpeg', 'png', 'webp'].includes(format) ? format : 'jpeg';
+
+  const original = await encode(
+    sharp(buffer)
+      .rotate()
+      .resize({
+        width: config.GALLERY_MAX_DIMENSION,
+        height: config.GALLERY_MAX_DIMENSION,
+        fit: 'inside',
+        withoutEnlargement: true
+      }),
+    originalFormat
+  );
+
+  // Widths at or above the original add nothing over the full-size variant
+  const widths = [
+    ...config.GALLERY_VARIANT_WIDTHS.filter(width => width < original.width),
+    original.width
+  ];
+
+  const variants: EncodedImage[] = [];
+  for (const variantFormat of config.GALLERY_IMAGE_FORMATS) {
+    for (const width of widths) {
+      variants.push(await encode(sharp(original.buffer).resize({ width }), variantFormat));
+    }
+  }
+
+  const thumbnail = await encode(
+    sharp(original.buffer).resize({
+      width: config.GALLERY_THUMBNAIL_SIZE,
+      height: config.GALLERY_THUMBNAIL_SIZE,
+      fit: 'cover',
+      position: 'attention'
+    }),
+    'webp'
+  );
+
+  const lqip = await sharp(original.buffer)
+    .resize({ width: 16, height: 16, fit: 'inside' })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    original,
+    variants,
+    thumbnail,
+    placeholder: `data:image/webp;base64,${lqip.toString('base64')}`
+  };
+};
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/environment';
+
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers messages (SMTP, API provider, local stand-in...)
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Development transport that prints messages to the console
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`
+📧 Email (console transport)
+From: ${message.from}
+To: ${message.to}
+Subject: ${message.subject}
+
+${message.text}
+    `);
+  }
+}
+
+/**
+ * Development transport that writes each message to a JSON file
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+
+    const filename = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}.json`;
+    const filePath = path.join(this.outputDir, filename);
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    console.log(`📧 Email to ${message.to} written to ${filePath}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ */
+const createTransport = (): MailTransport => {
+  switch (config.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailTransport(path.resolve(process.cwd(), config.MAIL_OUTPUT_DIR));
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${config.MAIL_TRANSPORT}`);
+  }
+};
+
+/**
+ * Replace the active mail transport (e.g. with an SMTP implementation)
+ */
+export const setMailTransport = (customTransport: MailTransport): void => {
+  transport = customTransport;
+};
+
+/**
+ * Send an email through the active transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = createTransport();
+  }
+
+  await transport.send({ from: config.MAIL_FROM, ...message });
+};
@@ -0,0 +1,61 @@
+import { IAttachment } from '../models/Notice';
+import { STORAGE_FOLDERS, getStorage } from './storage';
+
+/**
+ * Store a single notice attachment
+ */
+const uploadNoticeAttachment = async (file: Express.Multer.File, caption: string): Promise<IAttachment> => {
+  const stored = await getStorage().upload({
+    buffer: file.buffer,
+    originalName: file.originalname,
+    mimeType: file.mimetype,
+    folder: STORAGE_FOLDERS.notices
+  });
+
+  return {
+    filename: file.originalname,
+    originalName: file.originalname,
+    url: stored.url,
+    publicId: stored.publicId,
+    size: file.size,
+    mimeType: file.mimetype,
+    format: stored.format,
+    resourceType: stored.resourceType,
+    ...(stored.width ? { width: stored.width } : {}),
+    ...(stored.height ? { height: stored.height } : {}),
+    caption
+  };
+};
+
+/**
+ * Upload notice attachments in order, pairing each file with the caption at the
+ * same position. If any upload fails, the files already uploaded are deleted.
+ */
+export const uploadNoticeAttachments = async (
+  files: Express.Multer.File[],
+  captions: string[] = []
+): Promise<IAttachment[]> => {
+  const uploaded: IAttachment[] = [];
+
+  try {
+    for (const [index, file] of files.entries()) {
+      uploaded.push(await uploadNoticeAttachment(file, captions[index] ?? ''));
+    }
+  } catch (error) {
+    await deleteNoticeAttachmentFiles(uploaded);
+    throw error;
+  }
+
+  return uploaded;
+};
+
+/**
+ * Delete the stored files of the given attachments
+ */
+export const deleteNoticeAttachmentFiles = async (
+  attachments: Pick<IAttachment, 'publicId' | 'resourceType'>[]
+): Promise<void> => {
+  for (const attachment of attachments) {
+    await getStorage().delete(attachment.publicId, attachment.resourceType);
+  }
+};
@@ -0,0 +1,135 @@
+import { Types } from 'mongoose';
+import { IAttachment, INotice, Notice } from '../models/Notice';
+import { INoticeRevision, NoticeRevision, NoticeRevisionAction } from '../models/NoticeRevision';
+import { getStorage } from './storage';
+import { config } from '../config/environment';
+import { toPlainSnapshot } from './diff';
+
+/**
+ * Notice fields captured in each revision
+ */
+export const NOTICE_REVISION_FIELDS = ['title', 'description', 'date', 'attachments', 'category', 'tags', 'audience'] as const;
+
+/**
+ * Pick the revisioned fields of a notice or revision as plain data
+ */
+export const toRevisionSnapshot = (source: INotice | INoticeRevision): Record<string, unknown> => {
+  const plain = toPlainSnapshot(source) || {};
+  const snapshot: Record<string, unknown> = {};
+
+  for (const field of NOTICE_REVISION_FIELDS) {
+    snapshot[field] = plain[field] ?? null;
+  }
+
+  return snapshot;
+};
+
+/**
+ * Save the notice's current content as revision number `notice.currentRevision`,
+ * then prune revisions beyond the configured limit
+ */
+export const recordNoticeRevision = async (
+  notice: INotice,
+  adminId: Types.ObjectId | string,
+  action: NoticeRevisionAction,
+  restoredFrom: number | null = null
+): Promise<INoticeRevision> => {
+  const revision = await NoticeRevision.create({
+    notice: notice._id,
+    revision: notice.currentRevision,
+    title: notice.title,
+    description: notice.description,
+    date: notice.date,
+    attachments: notice.attachments,
+    category: notice.category,
+    tags: notice.tags,
+    audience: notice.audience,
+    action,
+    restoredFrom,
+    createdBy: adminId
+  });
+
+  await pruneNoticeRevisions(notice.id);
+
+  return revision;
+};
+
+/**
+ * Notices created before revisions existed have no history; save their
+ * current content as revision 1 so the first update can be undone
+ */
+export const ensureBaselineRevision = async (notice: INotice): Promise<void> => {
+  if (notice.currentRevision > 0) {
+    return;
+  }
+
+  notice.currentRevision = 1;
+  await Notice.updateOne({ _id: notice._id }, { currentRevision: 1 });
+  await recordNoticeRevision(notice, notice.updatedBy, 'create');
+};
+
+/**
+ * Stored file referenced by an attachment (the resource type is needed to delete it)
+ */
+export type StoredFileRef = Pick<IAttachment, 'publicId' | 'resourceType'>;
+
+/**
+ * Collect the stored files referenced by the attachments of notices or revisions, keyed by public ID
+ */
+export const collectPublicIds = (items: { attachments: StoredFileRef[] }[]): Map<string, StoredFileRef> => {
+  const files = new Map<string, StoredFileRef>();
+  for (const item of items) {
+    for (const { publicId, resourceType } of item.attachments) {
+      files.set(publicId, { publicId, resourceType });
+    }
+  }
+  return files;
+};
+
+/**
+ * Delete the oldest revisions beyond NOTICE_MAX_REVISIONS, along with any
+ * attachments that no remaining revision or the notice itself still uses
+ */
+export const pruneNoticeRevisions = async (noticeId: Types.ObjectId | string): Promise<number> => {
+  const staleRevisions = await NoticeRevision.find({ notice: noticeId })
+    .sort({ revision: -1 })
+    .skip(config.NOTICE_MAX_REVISIONS)
+    .select('_id attachments');
+
+  if (staleRevisions.length === 0) {
+    return 0;
+  }
+
+  await NoticeRevision.deleteMany({ _id: { $in: staleRevisions.map(revision => revision._id) } });
+
+  const [notice, remainingRevisions] = await Promise.all([
+    Notice.findById(noticeId).select('attachments').setOptions({ withDeleted: true }),
+    NoticeRevision.find({ notice: noticeId }).select('attachments')
+  ]);
+  const livePublicIds = collectPublicIds([...(notice ? [notice] : []), ...remainingRevisions]);
+
+  for (const { publicId, resourceType } of collectPublicIds(staleRevisions).values()) {
+    if (!livePublicIds.has(publicId)) {
+      await getStorage().delete(publicId, resourceType);
+    }
+  }
+
+  return staleRevisions.length;
+};
+
+/**
+ * Delete every revision of a notice and the attachments only they reference
+ * (the notice's own current attachments are left to the caller)
+ */
+export const deleteNoticeRevisions = async (notice: INotice): Promise<void> => {
+  const revisions = await NoticeRevision.find({ notice: notice._id }).select('attachments');
+
+  await NoticeRevision.deleteMany({ notice: notice._id });
+
+  const currentPublicIds = collectPublicIds([notice]);
+  for (const { publicId, resourceType } of collectPublicIds(revisions).values()) {
+    if (!currentPublicIds.has(publicId)) {
+      await getStorage().delete(publicId, resourceType);
+    }
+  }
+};
@@ -0,0 +1,230 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import joiToJson from 'joi-to-json';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Who may call a route: anyone, any signed-in admin, or super admins only
+ */
+export type RouteAccess = 'public' | 'admin' | 'super_admin';
+
+/**
+ * OpenAPI metadata for one route, declared next to the route itself
+ */
+export interface RouteDoc {
+  name: string; // Key in the /api endpoint listing and part of the operationId
+  method: HttpMethod;
+  path: string; // Express path relative to the router's mount point
+  summary: string;
+  access: RouteAccess;
+  body?: Joi.ObjectSchema;
+  query?: Joi.ObjectSchema;
+  upload?: { field: string; multiple?: boolean; required?: boolean }; // Multipart file field
+  status?: number; // Success status code (200 by default)
+}
+
+/**
+ * A router mounted on the app, with the docs of its routes
+ */
+export interface RouteMount {
+  name: string; // Group key in the /api endpoint listing
+  path: string;
+  tag: string;
+  router: Router;
+  docs: RouteDoc[];
+}
+
+/**
+ * Path parameters that aren't ObjectIds
+ */
+const PATH_PARAMETER_SCHEMAS: Record<string, Record<string, unknown>> = {
+  idOrSlug: { type: 'string', description: 'ID or slug' },
+  rev: { type: 'integer', minimum: 1, description: 'Revision number' }
+};
+
+const OBJECT_ID_SCHEMA = { type: 'string', pattern: '^[0-9a-fA-F]{24}$' };
+
+/**
+ * Full Express path of a documented route, e.g. /api/notices/:id
+ */
+export const getRoutePath = (mount: RouteMount, doc: RouteDoc): string => {
+  return doc.path === '/' ? mount.path : `${mount.path}${doc.path}`;
+};
+
+/**
+ * Convert an Express path to OpenAPI form: /api/notices/:id -> /api/notices/{id}
+ */
+export const toOpenApiPath = (expressPath: string): string => {
+  return expressPath.replace(/:(\w+)/g, '{$1}');
+};
+
+/**
+ * Convert a Joi object schema to an OpenAPI schema object
+ */
+const toSchema = (schema: Joi.ObjectSchema): Record<string, any> => {
+  return joiToJson(schema, 'open-api');
+};
+
+/**
+ * Build the operation object for a documented route
+ */
+const buildOperation = (mount: RouteMount, doc: RouteDoc): Record<string, unknown> => {
+  const parameters: Record<string, unknown>[] = [];
+
+  for (const [, name] of doc.path.matchAll(/:(\w+)/g)) {
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema: PATH_PARAMETER_SCHEMAS[name!] ?? OBJECT_ID_SCHEMA
+    });
+  }
+
+  if (doc.query) {
+    const querySchema = toSchema(doc.query);
+    for (const [name, schema] of Object.entries<Record<string, unknown>>(querySchema.properties ?? {})) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: (querySchema.required ?? []).includes(name),
+        schema
+      });
+    }
+  }
+
+  const operation: Record<string, unknown> = {
+    operationId: `${mount.name}.${doc.name}`,
+    summary: doc.summary,
+    tags: [mount.tag]
+  };
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (doc.upload) {
+    // Multipart forms carry the file next to the body fields
+    const schema = doc.body ? toSchema(doc.body) : { type: 'object', properties: {} };
+    const file = { type: 'string', format: 'binary' };
+    schema.properties[doc.upload.field] = doc.upload.multiple ? { type: 'array', items: file } : file;
+    if (doc.upload.required) {
+      schema.required = [...(schema.required ?? []), doc.upload.field];
+    }
+    delete schema.additionalProperties;
+
+    operation.requestBody = {
+      required: Boolean(doc.upload.required),
+      content: { 'multipart/form-data': { schema } }
+    };
+  } else if (doc.body) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: toSchema(doc.body) } }
+    };
+  }
+
+  const responses: Record<string, unknown> = {
+    [doc.status ?? 200]: { $ref: '#/components/responses/Success' }
+  };
+  if (doc.body || doc.query || doc.upload || parameters.length > 0) {
+    responses['400'] = { $ref: '#/components/responses/ValidationError' };
+  }
+  if (doc.access !== 'public') {
+    responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+    operation.security = [{ cookieAuth: [] }];
+  }
+  if (doc.access === 'super_admin') {
+    responses['403'] = { $ref: '#/components/responses/Forbidden' };
+  }
+  if (doc.path.includes(':')) {
+    responses['404'] = { $ref: '#/components/responses/NotFound' };
+  }
+  operation.responses = responses;
+
+  return operation;
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+});
+
+/**
+ * Build the OpenAPI 3 document for the mounted routers
+ */
+export const buildOpenApiSpec = (mounts: RouteMount[]): Record<string, any> => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const mount of mounts) {
+    for (const doc of mount.docs) {
+      const path = toOpenApiPath(getRoutePath(mount, doc));
+      paths[path] = { ...paths[path], [doc.method]: buildOperation(mount, doc) };
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Hi-Tech Institute Admin Backend API',
+      version: '1.0.0'
+    },
+    tags: mounts.map(mount => ({ name: mount.tag })).filter(
+      (tag, index, tags) => tags.findIndex(other => other.name === tag.name) === index
+    ),
+    paths,
+    components: {
+      securitySchemes: {
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'token',
+          description: 'Access token cookie set by sign in'
+        }
+      },
+      schemas: {
+        SuccessResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            message: { type: 'string' },
+            data: { type: 'object' }
+          }
+        },
+        ErrorResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: false },
+            message: { type: 'string' },
+            errors: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      },
+      responses: {
+        Success: {
+          description: 'Success',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } }
+        },
+        ValidationError: errorResponse('Validation error'),
+        Unauthorized: errorResponse('Not signed in'),
+        Forbidden: errorResponse('Super admin access required'),
+        NotFound: errorResponse('Not found')
+      }
+    }
+  };
+};
+
+/**
+ * Endpoint listing for GET /api, grouped by mount: { notices: { getAll: 'GET /api/notices' } }
+ */
+export const buildEndpointListing = (mounts: RouteMount[]): Record<string, Record<string, string>> => {
+  const listing: Record<string, Record<string, string>> = {};
+
+  for (const mount of mounts) {
+    listing[mount.name] = Object.fromEntries(
+      mount.docs.map(doc => [doc.name, `${doc.method.toUpperCase()} ${getRoutePath(mount, doc)}`])
+    );
+  }
+
+  return listing;
+};
@@ -0,0 +1,11 @@
+/**
+ * Turn a display name into a URL-friendly slug, e.g. "Exams & Results" -> "exams-results"
+ */
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { v2 as cloudinary } from 'cloudinary';
+import { config } from '../config/environment';
+import { generateUniqueFilename } from './fileHelpers';
+
+/**
+ * Folders uploaded files are grouped into
+ */
+export const STORAGE_FOLDERS = {
+  notices: 'hitech-institute/notices',
+  gallery: 'hitech-institute/gallery'
+} as const;
+
+/**
+ * A file to store
+ */
+export interface StorageUpload {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+  folder: string;
+}
+
+/**
+ * Details of a stored file, as saved on notices and gallery images
+ */
+export interface StoredFile {
+  url: string;
+  publicId: string; // Provider key used to delete the file
+  format: string;
+  size: number;
+  resourceType: string; // image, video, raw, etc.
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A file found when listing a storage folder
+ */
+export interface StoredAsset {
+  publicId: string;
+  resourceType: string;
+  size: number;
+  createdAt: Date;
+}
+
+/**
+ * A storage provider keeps uploaded files (Cloudinary, local disk...)
+ */
+export interface StorageProvider {
+  upload(file: StorageUpload): Promise<StoredFile>;
+  delete(publicId: string, resourceType?: string): Promise<boolean>;
+  list(folder: string): Promise<StoredAsset[]>;
+  ownsUrl(url: string): boolean; // Whether a stored URL points at this provider
+}
+
+/**
+ * Storage provider backed by Cloudinary
+ */
+export class CloudinaryStorageProvider implements StorageProvider {
+  constructor() {
+    cloudinary.config({
+      cloud_name: config.CLOUDINARY_CLOUD_NAME,
+      api_key: config.CLOUDINARY_API_KEY,
+      api_secret: config.CLOUDINARY_API_SECRET
+    });
+  }
+
+  upload(file: StorageUpload): Promise<StoredFile> {
+    return new Promise((resolve, reject) => {
+      const uploadStream = cloudinary.uploader.upload_stream(
+        { folder: file.folder, resource_type: 'auto' }, // Automatically detect file type
+        (error, result) => {
+          if (error) return reject(error);
+          if (!result) return reject(new Error('Cloudinary upload failed.'));
+          resolve({
+            url: result.secure_url,
+            publicId: result.public_id,
+            format: result.format,
+            size: result.bytes,
+            resourceType: result.resource_type,
+            ...(result.width ? { width: result.width } : {}),
+            ...(result.height ? { height: result.height } : {})
+          });
+        }
+      );
+
+      Readable.from(file.buffer).pipe(uploadStream);
+    });
+  }
+
+  async delete(publicId: string, resourceType: string = 'image'): Promise<boolean> {
+    try {
+      const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+      return result.result === 'ok';
+    } catch (error) {
+      console.error('Cloudinary delete error:', error);
+      return false;
+    }
+  }
+
+  async list(folder: string): Promise<StoredAsset[]> {
+    const assets: StoredAsset[] = [];
+
+    // The Admin API lists each resource type separately
+    for (const resourceType of ['image', 'raw', 'video']) {
+      let nextCursor: string | undefined;
+      do {
+        const page = await cloudinary.api.resources({
+          type: 'upload',
+          resource_type: resourceType,
+          prefix: `${folder}/`,
+          max_results: 500,
+          ...(nextCursor ? { next_cursor: nextCursor } : {})
+        });
+
+        for (const resource of page.resources) {
+          assets.push({
+            publicId: resource.public_id,
+            resourceType: resource.resource_type,
+            size: resource.bytes,
+            createdAt: new Date(resource.created_at)
+          });
+        }
+        nextCursor = page.next_cursor;
+      } while (nextCursor);
+    }
+
+    return assets;
+  }
+
+  ownsUrl(url: string): boolean {
+    return url.includes(`res.cloudinary.com/${config.CLOUDINARY_CLOUD_NAME}/`);
+  }
+}
+
+/**
+ * Storage provider that writes files to a local directory served by the app
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private static readonly IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif'];
+
+  constructor(private readonly rootDir: string, private readonly baseUrl: string) {}
+
+  /**
+   * Absolute path of a stored file, refusing keys that point outside the root directory
+   */
+  private resolveKey(publicId: string): string {
+    const filePath = path.resolve(this.rootDir, publicId);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${publicId}`);
+    }
+    return filePath;
+  }
+
+  async upload(file: StorageUpload): Promise<StoredFile> {
+    const publicId = path.posix.join(file.folder, generateUniqueFilename(file.originalName));
+    const filePath = this.resolveKey(publicId);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, file.buffer);
+
+    return {
+      url: `${this.baseUrl}/${publicId}`,
+      publicId,
+      format: path.extname(file.originalName).slice(1).toLowerCase(),
+      size: file.buffer.length,
+      resourceType: file.mimeType.startsWith('image/') ? 'image' : 'raw'
+    };
+  }
+
+  async delete(publicId: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolveKey(publicId));
+      return true;
+    } catch (error) {
+      console.error('Local storage delete error:', error);
+      return false;
+    }
+  }
+
+  async list(folder: string): Promise<StoredAsset[]> {
+    const folderPath = this.resolveKey(folder);
+    if (!fs.existsSync(folderPath)) {
+      return [];
+    }
+
+    const assets: StoredAsset[] = [];
+    const entries = await fs.promises.readdir(folderPath, { recursive: true, withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+
+      const filePath = path.join(entry.parentPath, entry.name);
+      const stats = await fs.promises.stat(filePath);
+      assets.push({
+        publicId: path.relative(this.rootDir, filePath).split(path.sep).join('/'),
+        resourceType: LocalStorageProvider.IMAGE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) ? 'image' : 'raw',
+        size: stats.size,
+        createdAt: stats.mtime
+      });
+    }
+
+    return assets;
+  }
+
+  ownsUrl(url: string): boolean {
+    return url.startsWith(`${this.baseUrl}/`);
+  }
+}
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Create the provider selected by STORAGE_DRIVER
+ */
+const createProvider = (): StorageProvider => {
+  switch (config.STORAGE_DRIVER) {
+    case 'cloudinary':
+      return new CloudinaryStorageProvider();
+    case 'local':
+      return new LocalStorageProvider(
+        path.resolve(process.cwd(), config.LOCAL_STORAGE_DIR),
+        config.LOCAL_STORAGE_BASE_URL.replace(/\/+$/, '')
+      );
+    default:
+      throw new Error(`Unknown storage driver: ${config.STORAGE_DRIVER}`);
+  }
+};
+
+/**
+ * Replace the active storage provider (e.g. with an in-memory one in tests)
+ */
+export const setStorageProvider = (customProvider: StorageProvider): void => {
+  provider = customProvider;
+};
+
+/**
+ * Get the active storage provider
+ */
+export const getStorage = (): StorageProvider => {
+  if (!provider) {
+    provider = createProvider();
+  }
+
+  return provider;
+};
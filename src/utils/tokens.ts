@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { Response, CookieOptions } from 'express';
+import * as jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { config } from '../config/environment';
+
+/**
+ * Payload carried by short-lived access tokens
+ */
+export interface AccessTokenPayload {
+  adminId: string;
+  email: string;
+  role: string;
+  sessionId: string;
+}
+
+/**
+ * Payload carried by the short-lived token issued between the password
+ * and two-factor steps of sign in
+ */
+export interface MfaTokenPayload {
+  adminId: string;
+  purpose: 'mfa_pending';
+}
+
+/**
+ * Cookie names used for authentication
+ */
+export const ACCESS_TOKEN_COOKIE = 'token';
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+/**
+ * Base options shared by authentication cookies
+ */
+const baseCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'none'
+};
+
+/**
+ * The refresh token is only ever sent to the auth endpoints
+ */
+const refreshCookieOptions: CookieOptions = {
+  ...baseCookieOptions,
+  path: '/api/auth'
+};
+
+/**
+ * Access token lifetime in milliseconds
+ */
+export const accessTokenTtlMs = (): number => config.ACCESS_TOKEN_EXPIRE_MINUTES * 60 * 1000;
+
+/**
+ * Refresh token (session) lifetime in milliseconds
+ */
+export const refreshTokenTtlMs = (): number => config.REFRESH_TOKEN_EXPIRE_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash an opaque token for storage (SHA-256)
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export const signAccessToken = (payload: AccessTokenPayload): string => {
+  return jwt.sign(payload, config.JWT_SECRET, {
+    expiresIn: config.ACCESS_TOKEN_EXPIRE_MINUTES * 60
+  });
+};
+
+/**
+ * Sign an "mfa pending" token proving the password step succeeded
+ */
+export const signMfaToken = (adminId: string): string => {
+  const payload: MfaTokenPayload = { adminId, purpose: 'mfa_pending' };
+  return jwt.sign(payload, config.JWT_SECRET, {
+    expiresIn: config.MFA_TOKEN_EXPIRE_MINUTES * 60
+  });
+};
+
+/**
+ * Verify an "mfa pending" token, returning null if invalid or expired
+ */
+export const verifyMfaToken = (token: string): MfaTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, config.JWT_SECRET) as MfaTokenPayload;
+    return decoded.purpose === 'mfa_pending' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Generate an opaque refresh token in the form `<sessionId>.<secret>`
+ */
+export const generateRefreshToken = (sessionId: Types.ObjectId | string): string => {
+  const secret = crypto.randomBytes(48).toString('base64url');
+  return `${sessionId.toString()}.${secret}`;
+};
+
+/**
+ * Extract the session ID from a refresh token
+ */
+export const parseRefreshToken = (token: string): { sessionId: string } | null => {
+  const [sessionId, secret] = token.split('.');
+
+  if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+    return null;
+  }
+
+  return { sessionId };
+};
+
+/**
+ * Set access and refresh token cookies
+ */
+export const setAuthCookies = (res: Response, accessToken: string, refreshToken: string): void => {
+  res.cookie(ACCESS_TOKEN_COOKIE, accessToken, {
+    ...baseCookieOptions,
+    maxAge: accessTokenTtlMs()
+  });
+
+  res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    ...refreshCookieOptions,
+    maxAge: refreshTokenTtlMs()
+  });
+};
+
+/**
+ * Clear access and refresh token cookies
+ */
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, baseCookieOptions);
+  res.clearCookie(REFRESH_TOKEN_COOKIE, refreshCookieOptions);
+};
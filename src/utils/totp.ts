@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { config } from '../config/environment';
+
+/**
+ * RFC 6238 TOTP helpers (HMAC-SHA1, 30 second steps, 6 digits),
+ * compatible with Google Authenticator, Authy, 1Password, etc.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+/**
+ * Encode a buffer as RFC 4648 base32 (no padding)
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode an RFC 4648 base32 string (padding and whitespace are ignored)
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret (160 bits, base32 encoded)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Get the TOTP time step for a timestamp
+ */
+export const getTotpStep = (timestampMs: number = Date.now()): number => {
+  return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * Generate the TOTP code for a given time step
+ */
+export const generateTotp = (secret: string, step: number = getTotpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verify a TOTP code, allowing `window` steps of clock drift either way.
+ * Returns the matched time step, or null if the code is invalid or was
+ * already used (step not after `lastUsedStep`).
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  lastUsedStep: number = -1,
+  window: number = 1
+): number | null => {
+  const currentStep = getTotpStep();
+
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    if (step <= lastUsedStep) {
+      continue;
+    }
+
+    const expected = Buffer.from(generateTotp(secret, step));
+    const provided = Buffer.from(code);
+
+    if (expected.length === provided.length && crypto.timingSafeEqual(expected, provided)) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build an otpauth:// URI for authenticator app enrollment (usually shown as a QR code)
+ */
+export const buildOtpauthUri = (secret: string, accountName: string): string => {
+  const issuer = config.TWO_FACTOR_ISSUER;
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString()
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Generate one-time recovery codes (e.g. "3f9a2-c81d0")
+ */
+export const generateRecoveryCodes = (count: number = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+};
+
+/**
+ * Normalize a recovery code before hashing (case and dash insensitive)
+ */
+export const normalizeRecoveryCode = (code: string): string => {
+  return code.toLowerCase().replace(/[^a-f0-9]/g, '');
+};
+
+/**
+ * Derive the AES key used to encrypt TOTP secrets at rest
+ */
+const getEncryptionKey = (): Buffer => {
+  return crypto
+    .createHash('sha256')
+    .update(config.TWO_FACTOR_ENCRYPTION_KEY)
+    .digest();
+};
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM, "iv:tag:ciphertext" in base64)
+ */
+export const encryptTotpSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [iv, tag, encrypted].map(part => part.toString('base64')).join(':');
+};
+
+/**
+ * Decrypt a stored TOTP secret
+ */
+export const decryptTotpSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
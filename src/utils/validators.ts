@@ -1,4 +1,6 @@
 import Joi from 'joi';
+import { AUDIT_ENTITY_TYPES } from '../models/AuditLog';
+import { NOTICE_PRIORITIES, NOTICE_STATUSES } from '../models/Notice';
 
 /**
  * Validation schema for admin sign in
@@ -48,51 +50,810 @@ export const noticeSchema = Joi.object({
     .optional()
     .messages({
       'date.base': 'Please provide a valid date'
+    }),
+  publishAt: Joi.date()
+    .allow(null, '')
+    .optional()
+    .messages({
+      'date.base': 'Publish time must be a valid date'
+    }),
+  expiresAt: Joi.date()
+    .allow(null, '')
+    .optional()
+    .when('publishAt', {
+      is: Joi.date().required(),
+      then: Joi.date().greater(Joi.ref('publishAt'))
+    })
+    .messages({
+      'date.base': 'Expiry time must be a valid date',
+      'date.greater': 'Expiry must be after the publish time'
+    }),
+  category: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.pattern.base': 'Category must be a valid ID'
+    }),
+  tags: Joi.array()
+    .items(
+      Joi.string()
+        .trim()
+        .lowercase()
+        .max(30)
+        .messages({
+          'string.max': 'Each tag cannot exceed 30 characters'
+        })
+    )
+    .single()
+    .unique()
+    .max(10)
+    .optional()
+    .messages({
+      'array.max': 'A notice cannot have more than 10 tags',
+      'array.unique': 'Tags must be unique'
+    }),
+  priority: Joi.string()
+    .valid(...NOTICE_PRIORITIES)
+    .optional()
+    .messages({
+      'any.only': `Priority must be one of ${NOTICE_PRIORITIES.join(', ')}`
+    }),
+  audience: Joi.object({
+    departments: Joi.array()
+      .items(
+        Joi.string()
+          .trim()
+          .max(50)
+          .messages({
+            'string.max': 'Each department cannot exceed 50 characters'
+          })
+      )
+      .single()
+      .unique()
+      .default([]),
+    years: Joi.array()
+      .items(
+        Joi.number()
+          .integer()
+          .min(1)
+          .max(6)
+          .messages({
+            'number.base': 'Each year must be a number',
+            'number.integer': 'Each year must be an integer',
+            'number.min': 'Year must be between 1 and 6',
+            'number.max': 'Year must be between 1 and 6'
+          })
+      )
+      .single()
+      .unique()
+      .default([])
+  })
+    .optional(),
+  captions: Joi.array()
+    .items(
+      Joi.string()
+        .trim()
+        .max(200)
+        .allow('')
+        .messages({
+          'string.max': 'Each caption cannot exceed 200 characters'
+        })
+    )
+    .single()
+    .optional()
+});
+
+/**
+ * Validation schema for adding attachments to a notice (captions pair with files by position)
+ */
+export const attachmentUploadSchema = Joi.object({
+  captions: Joi.array()
+    .items(
+      Joi.string()
+        .trim()
+        .max(200)
+        .allow('')
+        .messages({
+          'string.max': 'Each caption cannot exceed 200 characters'
+        })
+    )
+    .single()
+    .default([])
+});
+
+/**
+ * Validation schema for updating an attachment caption
+ */
+export const attachmentCaptionSchema = Joi.object({
+  caption: Joi.string()
+    .trim()
+    .max(200)
+    .allow('')
+    .required()
+    .messages({
+      'string.max': 'Caption cannot exceed 200 characters',
+      'any.required': 'Caption is required'
+    })
+});
+
+/**
+ * Validation schema for reordering notice attachments
+ */
+export const attachmentOrderSchema = Joi.object({
+  order: Joi.array()
+    .items(
+      Joi.string()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+          'string.pattern.base': 'Each attachment ID must be valid'
+        })
+    )
+    .unique()
+    .min(1)
+    .required()
+    .messages({
+      'array.unique': 'Attachment IDs must be unique',
+      'array.min': 'Order must list at least one attachment',
+      'any.required': 'Order is required'
+    })
+});
+
+/**
+ * Validation schema for pinning a notice
+ */
+export const pinSchema = Joi.object({
+  pinnedUntil: Joi.date()
+    .greater('now')
+    .allow(null)
+    .optional()
+    .messages({
+      'date.base': 'Pinned until must be a valid date',
+      'date.greater': 'Pinned until must be in the future'
+    })
+});
+
+/**
+ * Validation schema for the notice highlights feed
+ */
+export const highlightsQuerySchema = Joi.object({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(20)
+    .default(10)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.integer': 'Limit must be an integer',
+      'number.min': 'Limit must be at least 1',
+      'number.max': 'Limit cannot exceed 20'
+    })
+});
+
+/**
+ * Validation schema for gallery album create/update
+ */
+export const albumSchema = Joi.object({
+  title: Joi.string()
+    .trim()
+    .min(2)
+    .max(120)
+    .required()
+    .messages({
+      'string.min': 'Album title must be at least 2 characters long',
+      'string.max': 'Album title cannot exceed 120 characters',
+      'any.required': 'Album title is required'
+    }),
+  description: Joi.string()
+    .trim()
+    .max(1000)
+    .allow('')
+    .optional()
+    .messages({
+      'string.max': 'Album description cannot exceed 1000 characters'
+    }),
+  eventDate: Joi.date()
+    .allow(null, '')
+    .optional()
+    .messages({
+      'date.base': 'Event date must be a valid date'
+    }),
+  coverImage: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.pattern.base': 'Cover image must be a valid ID'
+    })
+});
+
+/**
+ * Validation schema for adding gallery images to an album
+ */
+export const albumImagesSchema = Joi.object({
+  images: Joi.array()
+    .items(
+      Joi.string()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+          'string.pattern.base': 'Each image ID must be valid'
+        })
+    )
+    .unique()
+    .min(1)
+    .required()
+    .messages({
+      'array.unique': 'Image IDs must be unique',
+      'array.min': 'At least one image is required',
+      'any.required': 'Images are required'
+    })
+});
+
+/**
+ * Validation schema for reordering the images of an album
+ */
+export const albumOrderSchema = Joi.object({
+  order: Joi.array()
+    .items(
+      Joi.string()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+          'string.pattern.base': 'Each image ID must be valid'
+        })
+    )
+    .unique()
+    .min(1)
+    .required()
+    .messages({
+      'array.unique': 'Image IDs must be unique',
+      'array.min': 'Order must list at least one image',
+      'any.required': 'Order is required'
+    })
+});
+
+/**
+ * Validation schema for gallery image uploads (the file itself is checked by the upload middleware)
+ */
+export const galleryImageSchema = Joi.object({
+  title: Joi.string()
+    .trim()
+    .max(100)
+    .required()
+    .messages({
+      'string.empty': 'Title cannot be empty',
+      'string.max': 'Title cannot exceed 100 characters',
+      'any.required': 'Title is required'
+    }),
+  description: Joi.string()
+    .trim()
+    .max(1000)
+    .allow('')
+    .optional()
+    .messages({
+      'string.max': 'Description cannot exceed 1000 characters'
+    }),
+  category: Joi.string()
+    .trim()
+    .max(60)
+    .required()
+    .messages({
+      'string.empty': 'Category cannot be empty',
+      'string.max': 'Category cannot exceed 60 characters',
+      'any.required': 'Category is required'
+    }),
+  date: Joi.date()
+    .iso()
+    .optional()
+    .messages({
+      'date.base': 'Date must be a valid date',
+      'date.format': 'Date must be an ISO 8601 date'
+    }),
+  album: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.pattern.base': 'Album must be a valid ID'
+    })
+});
+
+/**
+ * Validation schema for gallery image updates: every field is optional, but
+ * title and category can't be blanked (an empty album takes the image out of its album)
+ */
+export const galleryImageUpdateSchema = galleryImageSchema.fork(['title', 'category'], schema => schema.optional());
+
+/**
+ * Validation schema for bulk gallery uploads; titles are matched to files by position
+ */
+export const galleryBulkUploadSchema = galleryImageSchema.keys({
+  title: Joi.forbidden().messages({
+    'any.unknown': 'Use titles to name images in a bulk upload'
+  }),
+  titles: Joi.array()
+    .items(
+      Joi.string()
+        .trim()
+        .max(100)
+        .allow('')
+        .messages({
+          'string.max': 'Each title cannot exceed 100 characters'
+        })
+    )
+    .single()
+    .optional()
+});
+
+/**
+ * Validation schema for gallery listing query parameters
+ */
+export const galleryQuerySchema = Joi.object({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(24)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.integer': 'Limit must be an integer',
+      'number.min': 'Limit must be at least 1',
+      'number.max': 'Limit cannot exceed 100'
+    }),
+  cursor: Joi.string()
+    .max(200)
+    .messages({
+      'string.max': 'Cursor is invalid'
+    }),
+  category: Joi.string()
+    .trim()
+    .max(60)
+    .messages({
+      'string.max': 'Category cannot exceed 60 characters'
+    }),
+  album: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Album must be a valid ID'
+    }),
+  from: Joi.date()
+    .iso()
+    .messages({
+      'date.base': 'From must be a valid date',
+      'date.format': 'From must be an ISO 8601 date'
+    }),
+  to: Joi.date()
+    .iso()
+    .min(Joi.ref('from'))
+    .messages({
+      'date.base': 'To must be a valid date',
+      'date.format': 'To must be an ISO 8601 date',
+      'date.min': 'To must be after from'
+    }),
+  search: Joi.string()
+    .trim()
+    .max(100)
+    .messages({
+      'string.max': 'Search cannot exceed 100 characters'
+    })
+});
+
+/**
+ * Validation schema for notice category creation/update
+ */
+export const noticeCategorySchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(2)
+    .max(50)
+    .required()
+    .messages({
+      'string.min': 'Category name must be at least 2 characters long',
+      'string.max': 'Category name cannot exceed 50 characters',
+      'any.required': 'Category name is required'
+    }),
+  description: Joi.string()
+    .trim()
+    .max(300)
+    .allow('')
+    .optional()
+    .messages({
+      'string.max': 'Category description cannot exceed 300 characters'
+    }),
+  displayOrder: Joi.number()
+    .integer()
+    .min(0)
+    .optional()
+    .messages({
+      'number.base': 'Display order must be a number',
+      'number.integer': 'Display order must be an integer',
+      'number.min': 'Display order cannot be negative'
+    })
+});
+
+/**
+ * Validation schema for gallery category creation/update
+ */
+export const galleryCategorySchema = noticeCategorySchema.keys({
+  isActive: Joi.boolean()
+    .optional()
+    .messages({
+      'boolean.base': 'isActive must be true or false'
+    })
+});
+
+/**
+ * Validation schema for deleting a gallery category
+ */
+export const galleryCategoryDeleteQuerySchema = Joi.object({
+  reassignTo: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'reassignTo must be a valid category ID'
+    })
+});
+
+/**
+ * Password strength rule shared by admin registration and password changes
+ */
+const strongPassword = Joi.string()
+  .min(8)
+  .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]'))
+  .messages({
+    'string.min': 'Password must be at least 8 characters long',
+    'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one digit, and one special character'
+  });
+
+/**
+ * Validation schema for admin registration (for seeding or admin creation)
+ */
+export const adminRegistrationSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(2)
+    .max(50)
+    .required()
+    .messages({
+      'string.min': 'Name must be at least 2 characters long',
+      'string.max': 'Name cannot exceed 50 characters',
+      'any.required': 'Name is required'
+    }),
+  email: Joi.string()
+    .email({ tlds: { allow: false } })
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    }),
+  password: strongPassword
+    .required()
+    .messages({
+      'any.required': 'Password is required'
+    }),
+  role: Joi.string()
+    .valid('admin', 'super_admin')
+    .default('admin')
+    .messages({
+      'any.only': 'Role must be either admin or super_admin'
+    })
+});
+
+/**
+ * Validation schema for admin profile updates by a super admin
+ */
+export const adminUpdateSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(2)
+    .max(50)
+    .messages({
+      'string.min': 'Name must be at least 2 characters long',
+      'string.max': 'Name cannot exceed 50 characters'
+    }),
+  email: Joi.string()
+    .email({ tlds: { allow: false } })
+    .messages({
+      'string.email': 'Please provide a valid email address'
+    })
+}).min(1).messages({
+  'object.min': 'Provide at least one field to update'
+});
+
+/**
+ * Validation schema for changing an admin's role
+ */
+export const adminRoleSchema = Joi.object({
+  role: Joi.string()
+    .valid('admin', 'super_admin')
+    .required()
+    .messages({
+      'any.only': 'Role must be either admin or super_admin',
+      'any.required': 'Role is required'
+    })
+});
+
+/**
+ * Validation schema for changing the current admin's password
+ */
+export const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Current password is required'
+    }),
+  newPassword: strongPassword
+    .invalid(Joi.ref('currentPassword'))
+    .required()
+    .messages({
+      'any.invalid': 'New password must be different from the current password',
+      'any.required': 'New password is required'
     })
 });
 
 /**
- * Validation schema for admin registration (for seeding or admin creation)
+ * Validation schema for requesting a password reset
+ */
+export const forgotPasswordSchema = Joi.object({
+  email: Joi.string()
+    .email({ tlds: { allow: false } })
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    })
+});
+
+/**
+ * Validation schema for resetting a password with a reset token
+ */
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string()
+    .hex()
+    .length(64)
+    .required()
+    .messages({
+      'string.hex': 'Invalid reset token',
+      'string.length': 'Invalid reset token',
+      'any.required': 'Reset token is required'
+    }),
+  newPassword: strongPassword
+    .required()
+    .messages({
+      'any.required': 'New password is required'
+    })
+});
+
+/**
+ * Six digit TOTP code rule
+ */
+const totpCode = Joi.string()
+  .trim()
+  .pattern(/^\d{6}$/)
+  .messages({
+    'string.pattern.base': 'Code must be a 6 digit number'
+  });
+
+/**
+ * Validation schema for confirming or using a TOTP code
+ */
+export const twoFactorCodeSchema = Joi.object({
+  code: totpCode
+    .required()
+    .messages({
+      'any.required': 'Code is required'
+    })
+});
+
+/**
+ * Validation schema for the second (two-factor) step of sign in
+ */
+export const twoFactorSignInSchema = Joi.object({
+  mfaToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'MFA token is required'
+    }),
+  code: totpCode,
+  recoveryCode: Joi.string()
+    .trim()
+    .max(20)
+    .messages({
+      'string.max': 'Invalid recovery code'
+    })
+}).xor('code', 'recoveryCode').messages({
+  'object.missing': 'Provide either a code or a recovery code',
+  'object.xor': 'Provide either a code or a recovery code, not both'
+});
+
+/**
+ * Validation schema for disabling two-factor authentication
+ */
+export const twoFactorDisableSchema = Joi.object({
+  password: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Password is required'
+    }),
+  code: totpCode
+    .required()
+    .messages({
+      'any.required': 'Code is required'
+    })
+});
+
+/**
+ * Validation schema for the global security policy
+ */
+export const securityPolicySchema = Joi.object({
+  requireTwoFactor: Joi.boolean()
+    .required()
+    .messages({
+      'boolean.base': 'requireTwoFactor must be a boolean',
+      'any.required': 'requireTwoFactor is required'
+    })
+});
+
+/**
+ * Validation schema for query parameters
+ */
+export const queryParamsSchema = Joi.object({
+  page: Joi.number()
+    .integer()
+    .min(1)
+    .default(1)
+    .messages({
+      'number.base': 'Page must be a number',
+      'number.integer': 'Page must be an integer',
+      'number.min': 'Page must be at least 1'
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(10)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.integer': 'Limit must be an integer',
+      'number.min': 'Limit must be at least 1',
+      'number.max': 'Limit cannot exceed 100'
+    }),
+  search: Joi.string()
+    .trim()
+    .max(100)
+    .empty('')
+    .optional()
+    .messages({
+      'string.max': 'Search term cannot exceed 100 characters'
+    }),
+  from: Joi.date()
+    .iso()
+    .messages({
+      'date.base': 'From must be a valid date',
+      'date.format': 'From must be an ISO 8601 date'
+    }),
+  to: Joi.date()
+    .iso()
+    .min(Joi.ref('from'))
+    .messages({
+      'date.base': 'To must be a valid date',
+      'date.format': 'To must be an ISO 8601 date',
+      'date.min': 'To must be after from'
+    }),
+  category: Joi.string()
+    .trim()
+    .max(60)
+    .messages({
+      'string.max': 'Category cannot exceed 60 characters'
+    }),
+  tag: Joi.string()
+    .trim()
+    .lowercase()
+    .max(30)
+    .messages({
+      'string.max': 'Tag cannot exceed 30 characters'
+    }),
+  department: Joi.string()
+    .trim()
+    .max(50)
+    .messages({
+      'string.max': 'Department cannot exceed 50 characters'
+    }),
+  year: Joi.number()
+    .integer()
+    .min(1)
+    .max(6)
+    .messages({
+      'number.base': 'Year must be a number',
+      'number.integer': 'Year must be an integer',
+      'number.min': 'Year must be between 1 and 6',
+      'number.max': 'Year must be between 1 and 6'
+    }),
+  attachmentType: Joi.string()
+    .valid('image', 'pdf', 'document', 'none')
+    .messages({
+      'any.only': 'Attachment type must be one of image, pdf, document, none'
+    }),
+  sort: Joi.when('search', {
+    is: Joi.exist(),
+    then: Joi.string()
+      .valid('relevance', 'newest', 'oldest', 'title')
+      .default('relevance')
+      .messages({
+        'any.only': 'Sort must be one of relevance, newest, oldest, title'
+      }),
+    otherwise: Joi.string()
+      .valid('newest', 'oldest', 'title')
+      .default('newest')
+      .messages({
+        'any.only': 'Sort must be one of newest, oldest, title (relevance requires a search term)'
+      })
+  })
+});
+
+/**
+ * Validation schema for the admin notice listing
  */
-export const adminRegistrationSchema = Joi.object({
-  name: Joi.string()
+export const adminNoticeQuerySchema = Joi.object({
+  page: Joi.number()
+    .integer()
+    .min(1)
+    .default(1)
+    .messages({
+      'number.base': 'Page must be a number',
+      'number.integer': 'Page must be an integer',
+      'number.min': 'Page must be at least 1'
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(10)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.integer': 'Limit must be an integer',
+      'number.min': 'Limit must be at least 1',
+      'number.max': 'Limit cannot exceed 100'
+    }),
+  category: Joi.string()
     .trim()
-    .min(2)
-    .max(50)
-    .required()
+    .max(60)
     .messages({
-      'string.min': 'Name must be at least 2 characters long',
-      'string.max': 'Name cannot exceed 50 characters',
-      'any.required': 'Name is required'
+      'string.max': 'Category cannot exceed 60 characters'
     }),
-  email: Joi.string()
-    .email({ tlds: { allow: false } })
-    .required()
+  tag: Joi.string()
+    .trim()
+    .lowercase()
+    .max(30)
     .messages({
-      'string.email': 'Please provide a valid email address',
-      'any.required': 'Email is required'
+      'string.max': 'Tag cannot exceed 30 characters'
     }),
-  password: Joi.string()
-    .min(8)
-    .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]'))
-    .required()
+  department: Joi.string()
+    .trim()
+    .max(50)
     .messages({
-      'string.min': 'Password must be at least 8 characters long',
-      'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one digit, and one special character',
-      'any.required': 'Password is required'
+      'string.max': 'Department cannot exceed 50 characters'
     }),
-  role: Joi.string()
-    .valid('admin', 'super_admin')
-    .default('admin')
+  year: Joi.number()
+    .integer()
+    .min(1)
+    .max(6)
     .messages({
-      'any.only': 'Role must be either admin or super_admin'
+      'number.base': 'Year must be a number',
+      'number.integer': 'Year must be an integer',
+      'number.min': 'Year must be between 1 and 6',
+      'number.max': 'Year must be between 1 and 6'
+    }),
+  status: Joi.string()
+    .valid(...NOTICE_STATUSES)
+    .messages({
+      'any.only': `Status must be one of ${NOTICE_STATUSES.join(', ')}`
     })
 });
 
 /**
- * Validation schema for query parameters
+ * Validation schema for the notice and gallery trash listings
  */
-export const queryParamsSchema = Joi.object({
+export const trashQuerySchema = Joi.object({
   page: Joi.number()
     .integer()
     .min(1)
@@ -107,21 +868,107 @@ export const queryParamsSchema = Joi.object({
     .min(1)
     .max(100)
     .default(10)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.integer': 'Limit must be an integer',
+      'number.min': 'Limit must be at least 1',
+      'number.max': 'Limit cannot exceed 100'
+    })
+});
+
+/**
+ * Validation schema for audit log query parameters
+ */
+export const auditQuerySchema = Joi.object({
+  page: Joi.number()
+    .integer()
+    .min(1)
+    .default(1)
+    .messages({
+      'number.base': 'Page must be a number',
+      'number.integer': 'Page must be an integer',
+      'number.min': 'Page must be at least 1'
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(20)
     .messages({
       'number.base': 'Limit must be a number',
       'number.integer': 'Limit must be an integer',
       'number.min': 'Limit must be at least 1',
       'number.max': 'Limit cannot exceed 100'
     }),
-  search: Joi.string()
+  actor: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Actor must be a valid ID'
+    }),
+  action: Joi.string()
     .trim()
     .max(100)
-    .optional()
     .messages({
-      'string.max': 'Search term cannot exceed 100 characters'
+      'string.max': 'Action cannot exceed 100 characters'
+    }),
+  entityType: Joi.string()
+    .valid(...AUDIT_ENTITY_TYPES)
+    .messages({
+      'any.only': `Entity type must be one of ${AUDIT_ENTITY_TYPES.join(', ')}`
+    }),
+  entityId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Entity ID must be a valid ID'
+    }),
+  from: Joi.date()
+    .iso()
+    .messages({
+      'date.base': 'From must be a valid date',
+      'date.format': 'From must be an ISO 8601 date'
+    }),
+  to: Joi.date()
+    .iso()
+    .min(Joi.ref('from'))
+    .messages({
+      'date.base': 'To must be a valid date',
+      'date.format': 'To must be an ISO 8601 date',
+      'date.min': 'To must be after from'
     })
 });
 
+/**
+ * Validation schema for a notice revision number
+ */
+export const revisionNumberSchema = Joi.number()
+  .integer()
+  .min(1)
+  .required()
+  .messages({
+    'number.base': 'Revision must be a number',
+    'number.integer': 'Revision must be an integer',
+    'number.min': 'Revision must be at least 1',
+    'any.required': 'Revision is required'
+  });
+
+/**
+ * Validation schema for comparing two notice revisions
+ */
+export const revisionDiffQuerySchema = Joi.object({
+  from: revisionNumberSchema.messages({
+    'number.base': 'From must be a revision number',
+    'number.integer': 'From must be an integer',
+    'number.min': 'From must be at least 1',
+    'any.required': 'From revision is required'
+  }),
+  to: revisionNumberSchema.messages({
+    'number.base': 'To must be a revision number',
+    'number.integer': 'To must be an integer',
+    'number.min': 'To must be at least 1',
+    'any.required': 'To revision is required'
+  })
+});
+
 /**
  * Validation schema for MongoDB ObjectId
  */
@@ -158,6 +1005,69 @@ export const validateAdminRegistration = (data: any) => {
   return adminRegistrationSchema.validate(data, { abortEarly: false });
 };
 
+/**
+ * Validate admin update data
+ */
+export const validateAdminUpdate = (data: any) => {
+  return adminUpdateSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate admin role change data
+ */
+export const validateAdminRole = (data: any) => {
+  return adminRoleSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate password change data
+ */
+export const validateChangePassword = (data: any) => {
+  return changePasswordSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate forgot password data
+ */
+export const validateForgotPassword = (data: any) => {
+  return forgotPasswordSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate reset password data
+ */
+export const validateResetPassword = (data: any) => {
+  return resetPasswordSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate two-factor code data
+ */
+export const validateTwoFactorCode = (data: any) => {
+  return twoFactorCodeSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate two-factor sign in data
+ */
+export const validateTwoFactorSignIn = (data: any) => {
+  return twoFactorSignInSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate two-factor disable data
+ */
+export const validateTwoFactorDisable = (data: any) => {
+  return twoFactorDisableSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate security policy data
+ */
+export const validateSecurityPolicy = (data: any) => {
+  return securityPolicySchema.validate(data, { abortEarly: false });
+};
+
 /**
  * Validate query parameters
  */
@@ -165,6 +1075,146 @@ export const validateQueryParams = (data: any) => {
   return queryParamsSchema.validate(data, { abortEarly: false });
 };
 
+/**
+ * Validate notice pin data
+ */
+export const validatePin = (data: any) => {
+  return pinSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate notice attachment upload data
+ */
+export const validateAttachmentUpload = (data: any) => {
+  return attachmentUploadSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate notice attachment caption data
+ */
+export const validateAttachmentCaption = (data: any) => {
+  return attachmentCaptionSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate notice attachment order data
+ */
+export const validateAttachmentOrder = (data: any) => {
+  return attachmentOrderSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate notice highlights query parameters
+ */
+export const validateHighlightsQuery = (data: any) => {
+  return highlightsQuerySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate notice category data
+ */
+export const validateNoticeCategory = (data: any) => {
+  return noticeCategorySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery category data
+ */
+export const validateGalleryCategory = (data: any) => {
+  return galleryCategorySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery category deletion query parameters
+ */
+export const validateGalleryCategoryDeleteQuery = (data: any) => {
+  return galleryCategoryDeleteQuerySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery album data
+ */
+export const validateAlbum = (data: any) => {
+  return albumSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate images added to a gallery album
+ */
+export const validateAlbumImages = (data: any) => {
+  return albumImagesSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery album image order
+ */
+export const validateAlbumOrder = (data: any) => {
+  return albumOrderSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate admin notice listing query parameters
+ */
+export const validateAdminNoticeQuery = (data: any) => {
+  return adminNoticeQuerySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate trash listing query parameters
+ */
+export const validateTrashQuery = (data: any) => {
+  return trashQuerySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery image upload data
+ */
+export const validateGalleryImage = (data: any) => {
+  return galleryImageSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery image update data
+ */
+export const validateGalleryImageUpdate = (data: any) => {
+  return galleryImageUpdateSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate bulk gallery upload data
+ */
+export const validateGalleryBulkUpload = (data: any) => {
+  return galleryBulkUploadSchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate gallery listing query parameters
+ */
+export const validateGalleryQuery = (data: any) => {
+  return galleryQuerySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate audit log query parameters
+ */
+export const validateAuditQuery = (data: any) => {
+  return auditQuerySchema.validate(data, { abortEarly: false });
+};
+
+/**
+ * Validate notice revision number
+ */
+export const validateRevisionNumber = (revision: any) => {
+  return revisionNumberSchema.validate(revision);
+};
+
+/**
+ * Validate notice revision diff query parameters
+ */
+export const validateRevisionDiffQuery = (data: any) => {
+  return revisionDiffQuerySchema.validate(data, { abortEarly: false });
+};
+
 /**
  * Validate MongoDB ObjectId
  */
@@ -0,0 +1,111 @@
+import net from 'net';
+import { config } from '../config/environment';
+
+/**
+ * Result of scanning a file
+ */
+export interface ScanResult {
+  clean: boolean;
+  signature?: string; // Name of the detected threat
+}
+
+/**
+ * A virus scanner checks file contents before they are stored (clamd, API service...)
+ */
+export interface VirusScanner {
+  scan(buffer: Buffer): Promise<ScanResult>;
+}
+
+/**
+ * Stand-in scanner that accepts every file (development, or when no scanner is available)
+ */
+export class NoopVirusScanner implements VirusScanner {
+  async scan(): Promise<ScanResult> {
+    return { clean: true };
+  }
+}
+
+/**
+ * Scanner that streams files to a ClamAV daemon over TCP (INSTREAM command)
+ */
+export class ClamdVirusScanner implements VirusScanner {
+  private static readonly CHUNK_SIZE = 64 * 1024;
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+    private readonly timeoutMs: number
+  ) {}
+
+  scan(buffer: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const response: Buffer[] = [];
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error(`clamd did not respond within ${this.timeoutMs}ms`));
+      });
+      socket.on('error', reject);
+      socket.on('data', chunk => response.push(chunk));
+      socket.on('end', () => {
+        // Replies look like "stream: OK" or "stream: Eicar-Signature FOUND"
+        const reply = Buffer.concat(response).toString('utf8').replace(/\0/g, '').trim();
+        const found = reply.match(/^stream: (.+) FOUND$/);
+
+        if (found) {
+          resolve({ clean: false, signature: found[1]! });
+        } else if (reply.endsWith('OK')) {
+          resolve({ clean: true });
+        } else {
+          reject(new Error(`Unexpected clamd reply: ${reply}`));
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += ClamdVirusScanner.CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + ClamdVirusScanner.CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4)); // Zero-length chunk ends the stream
+      });
+    });
+  }
+}
+
+let scanner: VirusScanner | null = null;
+
+/**
+ * Create the scanner selected by VIRUS_SCANNER
+ */
+const createScanner = (): VirusScanner => {
+  switch (config.VIRUS_SCANNER) {
+    case 'clamd':
+      return new ClamdVirusScanner(config.CLAMD_HOST, config.CLAMD_PORT, config.CLAMD_TIMEOUT_MS);
+    case 'none':
+      return new NoopVirusScanner();
+    default:
+      throw new Error(`Unknown virus scanner: ${config.VIRUS_SCANNER}`);
+  }
+};
+
+/**
+ * Replace the active virus scanner (e.g. with a hosted scanning service)
+ */
+export const setVirusScanner = (customScanner: VirusScanner): void => {
+  scanner = customScanner;
+};
+
+/**
+ * Scan a file with the active virus scanner
+ */
+export const scanForViruses = async (buffer: Buffer): Promise<ScanResult> => {
+  if (!scanner) {
+    scanner = createScanner();
+  }
+
+  return scanner.scan(buffer);
+};
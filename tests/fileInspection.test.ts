@@ -0,0 +1,140 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'node:zlib';
+import sharp from 'sharp';
+import { inspectUploadedFile } from '../src/utils/fileInspection';
+import { NoopVirusScanner, ScanResult, setVirusScanner } from '../src/utils/virusScanner';
+
+/**
+ * Build a Multer-style file for inspection
+ */
+const createFile = (originalname: string, mimetype: string, buffer: Buffer): Express.Multer.File => {
+  return { originalname, mimetype, buffer, size: buffer.length } as Express.Multer.File;
+};
+
+/**
+ * Wrap PDF body objects in a minimal document
+ */
+const createPdf = (...objects: (string | Buffer)[]): Buffer => {
+  return Buffer.concat([
+    Buffer.from('%PDF-1.7\n'),
+    ...objects.map(object => Buffer.isBuffer(object) ? object : Buffer.from(object)),
+    Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n')
+  ]);
+};
+
+/**
+ * Wrap data in a stream object with the given dictionary entries
+ */
+const createStreamObject = (id: number, dictionary: string, data: Buffer): Buffer => {
+  return Buffer.concat([
+    Buffer.from(`${id} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+    data,
+    Buffer.from('\nendstream\nendobj\n')
+  ]);
+};
+
+const rejectsWith = (file: Express.Multer.File, statusCode: number, message: RegExp) => {
+  return assert.rejects(inspectUploadedFile(file), (error: { statusCode: number; message: string }) => {
+    assert.equal(error.statusCode, statusCode);
+    assert.match(error.message, message);
+    return true;
+  });
+};
+
+describe('inspectUploadedFile', () => {
+  before(() => {
+    setVirusScanner(new NoopVirusScanner());
+  });
+
+  describe('content signatures', () => {
+    it('accepts files whose content matches the declared type', async () => {
+      const png = await sharp({ create: { width: 2, height: 2, channels: 3, background: '#f00' } }).png().toBuffer();
+
+      await inspectUploadedFile(createFile('dot.png', 'image/png', png));
+      await inspectUploadedFile(createFile('notice.pdf', 'application/pdf', createPdf('1 0 obj\n<< /Type /Catalog >>\nendobj\n')));
+      await inspectUploadedFile(createFile('form.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00])));
+    });
+
+    it('rejects content that does not match the declared type', async () => {
+      const html = Buffer.from('<html><script>alert(1)</script></html>');
+
+      await rejectsWith(createFile('photo.jpg', 'image/jpeg', html), 400, /content does not match/);
+      await rejectsWith(createFile('notice.pdf', 'application/pdf', Buffer.from([0x50, 0x4b, 0x03, 0x04])), 400, /content does not match/);
+    });
+
+    it('rejects extensions that do not match the declared type', async () => {
+      await rejectsWith(createFile('notice.exe', 'application/pdf', createPdf()), 400, /extension does not match/);
+    });
+
+    it('rejects types that cannot be verified', async () => {
+      await rejectsWith(createFile('page.html', 'text/html', Buffer.from('<html></html>')), 400, /cannot be verified/);
+    });
+
+    it('strips image metadata', async () => {
+      const jpeg = await sharp({ create: { width: 2, height: 2, channels: 3, background: '#0f0' } })
+        .withExif({ IFD0: { Copyright: 'secret-location' } })
+        .jpeg()
+        .toBuffer();
+      const file = createFile('photo.jpg', 'image/jpeg', jpeg);
+
+      await inspectUploadedFile(file);
+
+      assert.equal((await sharp(file.buffer).metadata()).exif, undefined);
+      assert.equal(file.size, file.buffer.length);
+    });
+  });
+
+  describe('PDF active content', () => {
+    it('rejects PDFs with JavaScript or launch actions', async () => {
+      const scripted = createPdf('1 0 obj\n<< /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>\nendobj\n');
+      const launcher = createPdf('1 0 obj\n<< /OpenAction << /S /Launch /F (cmd.exe) >> >>\nendobj\n');
+
+      await rejectsWith(createFile('scripted.pdf', 'application/pdf', scripted), 400, /JavaScript/);
+      await rejectsWith(createFile('launcher.pdf', 'application/pdf', launcher), 400, /JavaScript/);
+    });
+
+    it('decodes hex-escaped names', async () => {
+      const escaped = createPdf('1 0 obj\n<< /OpenAction << /S /J#61vaScript /J#53 (app.alert(1)) >> >>\nendobj\n');
+
+      await rejectsWith(createFile('escaped.pdf', 'application/pdf', escaped), 400, /JavaScript/);
+    });
+
+    it('looks inside compressed object streams', async () => {
+      const objects = zlib.deflateSync(Buffer.from('<< /S /JavaScript /JS (app.alert(1)) >>'));
+      const pdf = createPdf(createStreamObject(1, '/Type /ObjStm /N 1 /First 0 /Filter /FlateDecode', objects));
+
+      await rejectsWith(createFile('hidden.pdf', 'application/pdf', pdf), 400, /JavaScript/);
+    });
+
+    it('ignores lookalike bytes inside other streams', async () => {
+      const content = Buffer.from('BT /F1 12 Tf (Learn /JavaScript basics) Tj ET');
+      const pdf = createPdf(createStreamObject(1, '', content));
+
+      await inspectUploadedFile(createFile('syllabus.pdf', 'application/pdf', pdf));
+    });
+  });
+
+  describe('virus scanning', () => {
+    it('rejects files the scanner flags', async () => {
+      setVirusScanner({ scan: async (): Promise<ScanResult> => ({ clean: false, signature: 'Eicar-Signature' }) });
+      try {
+        await rejectsWith(createFile('notice.pdf', 'application/pdf', createPdf()), 400, /Eicar-Signature/);
+      } finally {
+        setVirusScanner(new NoopVirusScanner());
+      }
+    });
+
+    it('reports an unavailable scanner as a 503', async () => {
+      setVirusScanner({ scan: async (): Promise<ScanResult> => { throw new Error('connection refused'); } });
+      const originalConsoleError = console.error;
+      console.error = () => {};
+      try {
+        await rejectsWith(createFile('notice.pdf', 'application/pdf', createPdf()), 503, /unavailable/);
+      } finally {
+        console.error = originalConsoleError;
+        setVirusScanner(new NoopVirusScanner());
+      }
+    });
+  });
+});
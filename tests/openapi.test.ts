@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { createApp, routeMounts } from '../src/app';
+import { buildOpenApiSpec, toOpenApiPath } from '../src/utils/openapi';
+
+/**
+ * Every "METHOD /path" registered on the mounted routers, in OpenAPI path form
+ */
+const getRegisteredRoutes = (): string[] => {
+  const routes: string[] = [];
+
+  for (const mount of routeMounts) {
+    for (const layer of mount.router.stack) {
+      if (!layer.route) continue;
+
+      const path = layer.route.path === '/' ? mount.path : `${mount.path}${layer.route.path}`;
+      // Each handler of a route is a layer with its HTTP method (none for route.all())
+      const methods = new Set(layer.route.stack.map(routeLayer => routeLayer.method).filter(Boolean));
+      for (const method of methods) {
+        routes.push(`${method.toUpperCase()} ${toOpenApiPath(path)}`);
+      }
+    }
+  }
+
+  return routes;
+};
+
+/**
+ * Every "METHOD /path" operation in the spec
+ */
+const getDocumentedRoutes = (spec: Record<string, any>): string[] => {
+  return Object.entries<Record<string, unknown>>(spec.paths).flatMap(([path, operations]) =>
+    Object.keys(operations).map(method => `${method.toUpperCase()} ${path}`)
+  );
+};
+
+describe('OpenAPI spec', () => {
+  const spec = buildOpenApiSpec(routeMounts);
+
+  it('documents every registered route', () => {
+    const documented = new Set(getDocumentedRoutes(spec));
+    const missing = getRegisteredRoutes().filter(route => !documented.has(route));
+
+    assert.deepEqual(missing, [], `Routes missing from the OpenAPI spec: ${missing.join(', ')}`);
+  });
+
+  it('only documents routes that exist', () => {
+    const registered = new Set(getRegisteredRoutes());
+    const stale = getDocumentedRoutes(spec).filter(route => !registered.has(route));
+
+    assert.deepEqual(stale, [], `Documented routes that are not registered: ${stale.join(', ')}`);
+  });
+
+  it('has a unique operationId for each operation', () => {
+    const operationIds = Object.values<Record<string, { operationId: string }>>(spec.paths)
+      .flatMap(operations => Object.values(operations).map(operation => operation.operationId));
+
+    assert.equal(new Set(operationIds).size, operationIds.length);
+  });
+
+  it('describes request bodies from the Joi schemas', () => {
+    const signIn = spec.paths['/api/auth/signin'].post;
+    const schema = signIn.requestBody.content['application/json'].schema;
+
+    assert.deepEqual(schema.required.sort(), ['email', 'password']);
+  });
+
+  it('serves the spec at /api/openapi.json', async () => {
+    const server = createApp().listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/api/openapi.json`);
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), JSON.parse(JSON.stringify(spec)));
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Session } from '../src/models/Session';
+import { generateRefreshToken, hashToken, parseRefreshToken } from '../src/utils/tokens';
+
+interface FakeSession {
+  _id: Types.ObjectId;
+  refreshTokenHash: string;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  userAgent: string;
+  ipAddress: string;
+  isValid(): boolean;
+  revoke(reason: string): Promise<FakeSession>;
+}
+
+/**
+ * Minimal stand-in for the Session model backed by a single in-memory
+ * document, enough to exercise the conditional update in rotateRefreshToken
+ */
+const createFakeModel = (refreshTokenHash: string, expiresAt = new Date(Date.now() + 60_000)) => {
+  const session: FakeSession = {
+    _id: new Types.ObjectId(),
+    refreshTokenHash,
+    revokedAt: null,
+    revokedReason: null,
+    expiresAt,
+    lastUsedAt: new Date(0),
+    userAgent: '',
+    ipAddress: '',
+    isValid() {
+      return !this.revokedAt && this.expiresAt > new Date();
+    },
+    async revoke(reason: string) {
+      this.revokedAt = new Date();
+      this.revokedReason = reason;
+      return this;
+    }
+  };
+
+  const model = {
+    session,
+    async findOneAndUpdate(filter: Record<string, any>, update: { $set: Partial<FakeSession> }) {
+      const matches = String(filter._id) === String(session._id)
+        && filter.refreshTokenHash === session.refreshTokenHash
+        && filter.revokedAt === session.revokedAt
+        && session.expiresAt > filter.expiresAt.$gt;
+
+      if (!matches) return null;
+      Object.assign(session, update.$set);
+      return session;
+    },
+    async findById(id: Types.ObjectId | string) {
+      return String(id) === String(session._id) ? session : null;
+    }
+  };
+
+  return model;
+};
+
+type FakeModel = ReturnType<typeof createFakeModel>;
+
+const rotate = (model: FakeModel, currentToken: string, nextToken: string, sessionId = model.session._id) => {
+  return Session.rotateRefreshToken.call(
+    model as unknown as typeof Session,
+    sessionId,
+    hashToken(currentToken),
+    hashToken(nextToken),
+    { userAgent: 'test-agent', ipAddress: '127.0.0.1' }
+  );
+};
+
+describe('refresh tokens', () => {
+  it('embeds the session ID in the token', () => {
+    const sessionId = new Types.ObjectId();
+    const token = generateRefreshToken(sessionId);
+
+    assert.deepEqual(parseRefreshToken(token), { sessionId: sessionId.toString() });
+  });
+
+  it('rejects malformed tokens', () => {
+    assert.equal(parseRefreshToken('not-a-token'), null);
+    assert.equal(parseRefreshToken('123.secret'), null);
+    assert.equal(parseRefreshToken(`${new Types.ObjectId()}.`), null);
+  });
+});
+
+describe('Session.rotateRefreshToken', () => {
+  it('swaps the stored hash when the current token is presented', async () => {
+    const current = generateRefreshToken(new Types.ObjectId());
+    const next = generateRefreshToken(new Types.ObjectId());
+    const model = createFakeModel(hashToken(current));
+
+    const result = await rotate(model, current, next);
+
+    assert.equal(result.status, 'rotated');
+    assert.equal(model.session.refreshTokenHash, hashToken(next));
+    assert.equal(model.session.userAgent, 'test-agent');
+    assert.equal(model.session.revokedAt, null);
+  });
+
+  it('revokes the session when a rotated-out token is replayed', async () => {
+    const first = generateRefreshToken(new Types.ObjectId());
+    const second = generateRefreshToken(new Types.ObjectId());
+    const model = createFakeModel(hashToken(first));
+
+    await rotate(model, first, second);
+    const result = await rotate(model, first, generateRefreshToken(new Types.ObjectId()));
+
+    assert.equal(result.status, 'reused');
+    assert.equal(model.session.revokedReason, 'refresh_token_reuse');
+    assert.equal((await rotate(model, second, first)).status, 'invalid');
+  });
+
+  it('lets only one of two concurrent rotations of the same token succeed', async () => {
+    const current = generateRefreshToken(new Types.ObjectId());
+    const model = createFakeModel(hashToken(current));
+
+    const results = await Promise.all([
+      rotate(model, current, generateRefreshToken(new Types.ObjectId())),
+      rotate(model, current, generateRefreshToken(new Types.ObjectId()))
+    ]);
+
+    assert.deepEqual(results.map(result => result.status).sort(), ['reused', 'rotated']);
+  });
+
+  it('reports unknown and expired sessions as invalid without revoking', async () => {
+    const current = generateRefreshToken(new Types.ObjectId());
+    const expired = createFakeModel(hashToken(current), new Date(Date.now() - 1000));
+
+    assert.equal((await rotate(expired, current, 'next')).status, 'invalid');
+    assert.equal(expired.session.revokedAt, null);
+    assert.equal((await rotate(expired, current, 'next', new Types.ObjectId())).status, 'invalid');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Admin } from '../src/models/Admin';
+import { hashToken } from '../src/utils/tokens';
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotp
+} from '../src/utils/totp';
+
+/**
+ * A timestamp in the middle of a 30 second step, so the window checks never
+ * straddle a step boundary
+ */
+const NOW = 1_700_000_015_000;
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('TOTP', () => {
+  it('round-trips base32', () => {
+    const buffer = Buffer.from('12345678901234567890');
+
+    assert.equal(base32Encode(buffer), 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    assert.deepEqual(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq===='), buffer);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+    assert.equal(generateTotp(secret, getTotpStep(59_000)), '287082');
+    assert.equal(generateTotp(secret, getTotpStep(1_111_111_109_000)), '081804');
+    assert.equal(generateTotp(secret, getTotpStep(1_234_567_890_000)), '005924');
+  });
+
+  it('accepts codes within one step of clock drift', () => {
+    mock.method(Date, 'now', () => NOW);
+    const secret = generateTotpSecret();
+    const step = getTotpStep(NOW);
+
+    assert.equal(verifyTotp(secret, generateTotp(secret, step)), step);
+    assert.equal(verifyTotp(secret, generateTotp(secret, step - 1)), step - 1);
+    assert.equal(verifyTotp(secret, generateTotp(secret, step + 1)), step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    mock.method(Date, 'now', () => NOW);
+    const secret = generateTotpSecret();
+    const step = getTotpStep(NOW);
+
+    assert.equal(verifyTotp(secret, generateTotp(secret, step - 2)), null);
+    assert.equal(verifyTotp(secret, generateTotp(secret, step + 2)), null);
+    assert.equal(verifyTotp(secret, 'abcdef'), null);
+  });
+
+  it('rejects a code whose step was already used', () => {
+    mock.method(Date, 'now', () => NOW);
+    const secret = generateTotpSecret();
+    const step = getTotpStep(NOW);
+    const code = generateTotp(secret, step);
+
+    assert.equal(verifyTotp(secret, code, step), null);
+    assert.equal(verifyTotp(secret, generateTotp(secret, step - 1), step), null);
+    assert.equal(verifyTotp(secret, generateTotp(secret, step + 1), step), step + 1);
+  });
+});
+
+describe('two-factor code consumption', () => {
+  /**
+   * Stand in for Admin.updateOne against a single in-memory admin, applying
+   * the update only when the filter matches
+   */
+  const mockAdminStore = (state: { twoFactorLastUsedStep: number; twoFactorRecoveryCodes: string[] }) => {
+    mock.method(Admin, 'updateOne', async (filter: Record<string, any>, update: Record<string, any>) => {
+      if (filter.twoFactorLastUsedStep && state.twoFactorLastUsedStep < filter.twoFactorLastUsedStep.$lt) {
+        state.twoFactorLastUsedStep = update.$set.twoFactorLastUsedStep;
+        return { modifiedCount: 1 };
+      }
+
+      if (filter.twoFactorRecoveryCodes && state.twoFactorRecoveryCodes.includes(filter.twoFactorRecoveryCodes)) {
+        state.twoFactorRecoveryCodes = state.twoFactorRecoveryCodes
+          .filter(hash => hash !== update.$pull.twoFactorRecoveryCodes);
+        return { modifiedCount: 1 };
+      }
+
+      return { modifiedCount: 0 };
+    });
+  };
+
+  it('lets a TOTP step be consumed only once, even in parallel', async () => {
+    const state = { twoFactorLastUsedStep: 100, twoFactorRecoveryCodes: [] };
+    mockAdminStore(state);
+    const admin = new Admin({ twoFactorLastUsedStep: 100 });
+
+    const results = await Promise.all([admin.consumeTotpStep(101), admin.consumeTotpStep(101)]);
+
+    assert.deepEqual(results.sort(), [false, true]);
+    assert.equal(state.twoFactorLastUsedStep, 101);
+    assert.equal(await admin.consumeTotpStep(100), false);
+  });
+
+  it('lets a recovery code be redeemed only once', async () => {
+    const [code, other] = generateRecoveryCodes(2);
+    const state = {
+      twoFactorLastUsedStep: -1,
+      twoFactorRecoveryCodes: [code, other].map(value => hashToken(normalizeRecoveryCode(value)))
+    };
+    mockAdminStore(state);
+    const admin = new Admin();
+
+    const results = await Promise.all([
+      admin.useRecoveryCode(code.toUpperCase()),
+      admin.useRecoveryCode(code)
+    ]);
+
+    assert.deepEqual(results.sort(), [false, true]);
+    assert.deepEqual(state.twoFactorRecoveryCodes, [hashToken(normalizeRecoveryCode(other))]);
+  });
+});
@@ -0,0 +1,107 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'node:net';
+import { ClamdVirusScanner } from '../src/utils/virusScanner';
+
+/**
+ * Decode an INSTREAM request: "zINSTREAM\0", then length-prefixed chunks
+ * ending with a zero-length chunk
+ */
+const decodeInstream = (request: Buffer): Buffer => {
+  assert.equal(request.subarray(0, 10).toString('latin1'), 'zINSTREAM\0');
+
+  const chunks: Buffer[] = [];
+  let offset = 10;
+  for (;;) {
+    const length = request.readUInt32BE(offset);
+    offset += 4;
+    if (length === 0) break;
+
+    chunks.push(request.subarray(offset, offset + length));
+    offset += length;
+  }
+
+  assert.equal(offset, request.length, 'nothing may follow the terminating chunk');
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Start a fake clamd that answers each stream with `reply(payload)`, or never answers when it returns null
+ */
+const startFakeClamd = async (reply: (payload: Buffer) => string | null) => {
+  const received: Buffer[] = [];
+  const server = net.createServer({ allowHalfOpen: true }, socket => {
+    const request: Buffer[] = [];
+    socket.on('data', chunk => request.push(chunk));
+    socket.on('end', () => {
+      const payload = decodeInstream(Buffer.concat(request));
+      received.push(payload);
+
+      const response = reply(payload);
+      if (response !== null) {
+        socket.end(`${response}\0`);
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, port, received };
+};
+
+describe('ClamdVirusScanner', () => {
+  const servers: net.Server[] = [];
+
+  after(() => {
+    for (const server of servers) {
+      server.close();
+    }
+  });
+
+  const createScanner = async (reply: (payload: Buffer) => string | null, timeoutMs = 2000) => {
+    const clamd = await startFakeClamd(reply);
+    servers.push(clamd.server);
+    return { scanner: new ClamdVirusScanner('127.0.0.1', clamd.port, timeoutMs), received: clamd.received };
+  };
+
+  it('reports clean files', async () => {
+    const { scanner } = await createScanner(() => 'stream: OK');
+
+    assert.deepEqual(await scanner.scan(Buffer.from('hello')), { clean: true });
+  });
+
+  it('reports the signature of infected files', async () => {
+    const { scanner } = await createScanner(() => 'stream: Eicar-Test-Signature FOUND');
+
+    assert.deepEqual(await scanner.scan(Buffer.from('X5O!P%@AP')), { clean: false, signature: 'Eicar-Test-Signature' });
+  });
+
+  it('streams large files in chunks', async () => {
+    const { scanner, received } = await createScanner(() => 'stream: OK');
+    const file = Buffer.alloc(200 * 1024, 7);
+
+    await scanner.scan(file);
+
+    assert.deepEqual(received[0], file);
+  });
+
+  it('rejects unexpected replies', async () => {
+    const { scanner } = await createScanner(() => 'INSTREAM size limit exceeded. ERROR');
+
+    await assert.rejects(scanner.scan(Buffer.from('hello')), /Unexpected clamd reply: INSTREAM size limit exceeded\. ERROR/);
+  });
+
+  it('rejects when clamd does not answer in time', async () => {
+    const { scanner } = await createScanner(() => null, 100);
+
+    await assert.rejects(scanner.scan(Buffer.from('hello')), /did not respond within 100ms/);
+  });
+
+  it('rejects when clamd is unreachable', async () => {
+    const { server, port } = await startFakeClamd(() => 'stream: OK');
+    await new Promise(resolve => server.close(resolve));
+
+    await assert.rejects(new ClamdVirusScanner('127.0.0.1', port, 1000).scan(Buffer.from('hello')), { code: 'ECONNREFUSED' });
+  });
+});